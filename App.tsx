@@ -1,65 +1,133 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveSession, Modality, LiveServerMessage } from '@google/genai';
-import { RecordingState, HistoryEntry } from './types';
+import { RecordingState, BatchJob, CaptureJob, CaptureMode, ConversationSpeaker, Glossary, HistoryEntry, Language, LiveConversationTurn, LiveSessionHandle, TranscriptSegment, TranslateOptions, TranslationReply, TranslationResult, TranslationStyle, UsageBudget, UsageSummary } from './types';
 import LanguageSelector from './components/LanguageSelector';
+import SourceLanguageSelector from './components/SourceLanguageSelector';
 import RecordButton from './components/RecordButton';
 import IconButton from './components/IconButton';
-import { TARGET_LANGUAGES } from './constants';
-
-// Audio helper functions
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
-
-const fileToBase64 = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      // remove "data:audio/mpeg;base64," prefix
-      resolve(result.split(',')[1]);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-
-const formatTime = (timeInSeconds: number): string => {
-  if (isNaN(timeInSeconds) || timeInSeconds === 0) return '00:00';
-  const minutes = Math.floor(timeInSeconds / 60);
-  const seconds = Math.floor(timeInSeconds % 60);
-  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
-};
+import SegmentList from './components/SegmentList';
+import SubtitleExport from './components/SubtitleExport';
+import HistoryPanel from './components/HistoryPanel';
+import TranslationTabs from './components/TranslationTabs';
+import GlossaryManager from './components/GlossaryManager';
+import StyleProfileManager from './components/StyleProfileManager';
+import UsagePanel from './components/UsagePanel';
+import HighlightedText from './components/HighlightedText';
+import SpeakerIcon from './components/SpeakerIcon';
+import ConversationSetup from './components/ConversationSetup';
+import ConversationView from './components/ConversationView';
+import SpeakerNames from './components/SpeakerNames';
+import LevelMeter from './components/LevelMeter';
+import TranscriptEditor from './components/TranscriptEditor';
+import CaptureQueue from './components/CaptureQueue';
+import { getTranslationProvider } from './services/providers';
+import { createIncrementalTranslator, IncrementalTranslator } from './services/incrementalTranslator';
+import { findActiveSegmentIndex, segmentsToText } from './utils/transcript';
+import { formatTime } from './utils/time';
+import { findLanguage, isAlreadyInLanguage } from './utils/language';
+import { AUTO_DETECT } from './constants';
+import { createSourceLanguageResolver, SourceLanguageResolver } from './services/sourceLanguage';
+import { loadGlossaries, saveGlossaries } from './services/glossaryStore';
+import { loadStyleProfiles, saveStyleProfiles } from './services/styleProfileStore';
+import { fetchUsage, saveUsageBudget } from './services/usageApi';
+import { findGlossaryMisses, glossaryTermsFor } from './utils/glossary';
+import { stylesFor } from './utils/translationStyle';
+import { budgetNotice } from './utils/usage';
+import { CaptionPublisher, createCaptionPublisher, openCaptionWindow } from './services/captionChannel';
+import { createSpeechQueue } from './services/speechQueue';
+import { otherSpeaker, resolveTurnSpeaker, speakerLanguage } from './services/conversation';
+import { addHistoryEntry, getHistoryEntries } from './services/historyStore';
+import { conversationToHistory, getEntryTranslations, restoreConversationTurns, reviseHistoryEntry, withTranslations } from './utils/history';
+import { speakerIds } from './utils/speakers';
+import { blobToBase64, decodeToMono } from './utils/audio';
+import { CHUNK_SAMPLE_RATE, ChunkProgress, transcribeInChunks } from './services/chunkedTranscriber';
+import { createLevelFeed, MicrophoneCapture, startMicrophoneCapture } from './services/microphoneCapture';
+import { createVoiceGate } from './services/voiceGate';
+import { createVoiceActivityDetector } from './utils/vad';
+import { describeError, isTransientError } from './utils/errors';
+import { createRecordingMachine } from './services/recordingMachine';
+import { LocalRecorder, LocalRecording, startLocalRecording } from './services/localRecorder';
+import { addCaptureJob, deleteCaptureJob, listCaptureJobs, transitionCaptureJob, updateCaptureJob } from './services/captureQueueStore';
+import { addBatchJobs, deleteBatchJob, listBatchJobs, transitionBatchJob, updateBatchJob } from './services/batchQueueStore';
+import { withJobLock } from './services/jobLocks';
+import BatchQueue from './components/BatchQueue';
+import { processCaptureJob } from './services/captureProcessor';
 
 // UI Icon Components
 const PlayIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6"><path fillRule="evenodd" d="M4.5 5.653c0-1.426 1.529-2.33 2.779-1.643l11.54 6.647c1.295.742 1.295 2.545 0 3.286L7.279 20.99c-1.25.717-2.779-.217-2.779-1.643V5.653z" clipRule="evenodd" /></svg>);
 const PauseIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6"><path fillRule="evenodd" d="M6.75 5.25a.75.75 0 00-.75.75v12c0 .414.336.75.75.75h3a.75.75 0 00.75-.75v-12a.75.75 0 00-.75-.75h-3zm7.5 0a.75.75 0 00-.75.75v12c0 .414.336.75.75.75h3a.75.75 0 00.75-.75v-12a.75.75 0 00-.75-.75h-3z" clipRule="evenodd" /></svg>);
 const UploadIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>);
+const StopIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="1" /></svg>);
 const CloseIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>);
 
+type AppMode = 'translate' | 'conversation';
+
+const APP_MODES: [AppMode, string][] = [
+  ['translate', 'Translate'],
+  ['conversation', 'Conversation'],
+];
+
+const CAPTURE_MODES: [CaptureMode, string][] = [
+  ['toggle', 'Click to record'],
+  ['hands-free', 'Hands-free'],
+  ['push-to-talk', 'Push-to-talk'],
+];
+
+// Held down to talk in push-to-talk mode.
+const PUSH_TO_TALK_KEY = ' ';
+
+// How many batch-uploaded files one window transcribes and translates at once.
+const BATCH_CONCURRENCY = 2;
+
+// A conversation in progress. Turns live here as well as in state so that
+// session callbacks and the final save see every update.
+interface ActiveConversation {
+  languages: [string, string];
+  turns: LiveConversationTurn[];
+  pending: Promise<void>[];
+  // The recording run the conversation belongs to; aborted when it is cancelled.
+  signal: AbortSignal;
+  // The saved conversation this one carries on; it is revised instead of saving a new entry.
+  resumes?: HistoryEntry;
+}
+
+
 const App: React.FC = () => {
+  const provider = getTranslationProvider();
   const [recordingState, setRecordingState] = useState<RecordingState>(RecordingState.IDLE);
+  // Owns the recording state; `recordingState` mirrors it for rendering.
+  const [machine] = useState(() => createRecordingMachine(setRecordingState));
   const [transcribedText, setTranscribedText] = useState<string>('');
-  const [translatedText, setTranslatedText] = useState<string>('');
-  const [targetLanguage, setTargetLanguage] = useState<string>('es');
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [translations, setTranslations] = useState<Record<string, TranslationResult>>({});
+  const [activeTranslation, setActiveTranslation] = useState<string>('es');
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['es']);
+  const [sourceLanguage, setSourceLanguage] = useState<string>(AUTO_DETECT);
+  const [resolvedSource, setResolvedSource] = useState<{ code: string; detected: boolean } | null>(null);
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [styleProfiles, setStyleProfiles] = useState<Record<string, TranslationStyle>>(loadStyleProfiles);
+  const [autoSpeak, setAutoSpeak] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [speechQueue] = useState(() => createSpeechQueue({
+    synthesize: provider.synthesizeSpeech,
+    onSpeakingChange: setIsSpeaking,
+  }));
+  const [mode, setMode] = useState<AppMode>('translate');
+  const [conversationLanguages, setConversationLanguages] = useState<[string, string]>(['en', 'es']);
+  const [nextSpeaker, setNextSpeaker] = useState<ConversationSpeaker | typeof AUTO_DETECT>(AUTO_DETECT);
+  const [conversationTurns, setConversationTurns] = useState<LiveConversationTurn[]>([]);
+  const [levelFeed] = useState(createLevelFeed);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('toggle');
+  const [voiceActive, setVoiceActive] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [connectionNotice, setConnectionNotice] = useState<string | null>(null);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Set while the microphone is being recorded locally for the capture queue.
+  const [recordingOffline, setRecordingOffline] = useState(false);
+  const [captureJobs, setCaptureJobs] = useState<CaptureJob[]>([]);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const [error, setError] = useState<string | null>(null);
   
   // New state for file handling
@@ -67,142 +135,728 @@ const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  // Chunked transcription progress for the current file; `cancelled` is kept once the user stops it.
+  const [fileProgress, setFileProgress] = useState<(ChunkProgress & { cancelled?: boolean }) | null>(null);
 
-  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSessionHandle> | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
-  const mediaStreamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const capturePromiseRef = useRef<Promise<MicrophoneCapture> | null>(null);
+  const localRecorderRef = useRef<LocalRecorder | null>(null);
+  const processingQueueRef = useRef(false);
+  // Ids of the batch jobs being processed by this window.
+  const runningBatchJobsRef = useRef(new Set<string>());
   const currentTranscriptionRef = useRef<string>('');
+  const incrementalTranslatorsRef = useRef<Record<string, IncrementalTranslator> | null>(null);
+  const sourceResolverRef = useRef<SourceLanguageResolver | null>(null);
+  const conversationRef = useRef<ActiveConversation | null>(null);
+  // Translations of utterances already finished in a hands-free or push-to-talk session.
+  const pendingUtterancesRef = useRef<Promise<void>[]>([]);
   
   // New refs for file player
   const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // The history entry the cards show: rewritten when speakers are renamed,
+  // revised when the transcript is edited and translated again.
+  const currentEntryRef = useRef<HistoryEntry | null>(null);
 
-  const recordingStateRef = useRef(recordingState);
+  // Read from live-session callbacks, which would otherwise see a stale value.
+  const autoSpeakRef = useRef(autoSpeak);
   useEffect(() => {
-    recordingStateRef.current = recordingState;
-  }, [recordingState]);
+    autoSpeakRef.current = autoSpeak;
+  }, [autoSpeak]);
 
+  const nextSpeakerRef = useRef(nextSpeaker);
   useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem('transcriptionHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
+    nextSpeakerRef.current = nextSpeaker;
+  }, [nextSpeaker]);
+
+  const isSpeakingRef = useRef(isSpeaking);
+  useEffect(() => {
+    isSpeakingRef.current = isSpeaking;
+  }, [isSpeaking]);
+
+  // Read by the capture callback on every block.
+  const isTalkingRef = useRef(false);
+
+  const storeHistoryEntry = (entry: HistoryEntry) => {
+    addHistoryEntry(entry)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(e => console.error("Failed to save history", e));
+  };
+
+  const saveToHistory = (entry: Omit<HistoryEntry, 'id' | 'createdAt'>): HistoryEntry => {
+    const newEntry: HistoryEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+    };
+    storeHistoryEntry(newEntry);
+    return newEntry;
+  };
+
+  const updateTranslation = (code: string, result: TranslationResult) => {
+    setTranslations(prev => ({ ...prev, [code]: result }));
+  };
+
+  // Each utterance gets its own resolver, so detection runs once per utterance
+  // and the result is shown on the transcription card.
+  const newSourceResolver = (): SourceLanguageResolver => {
+    const resolve = createSourceLanguageResolver(sourceLanguage, provider.detectLanguage);
+    return async (text: string) => {
+      const source = await resolve(text);
+      if (source) {
+        setResolvedSource(prev => prev?.code === source.code ? prev : { code: source.code, detected: sourceLanguage === AUTO_DETECT });
       }
-    } catch (e) {
-      console.error("Failed to load history from localStorage", e);
-    }
-  }, []);
+      return source;
+    };
+  };
 
-  const saveToHistory = (entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => {
-    setHistory(prevHistory => {
-      const newEntry: HistoryEntry = {
-        ...entry,
-        id: new Date().toISOString(),
-        timestamp: new Date().toLocaleString(),
-      };
-      const updatedHistory = [newEntry, ...prevHistory].slice(0, 20); // Keep last 20 entries
+  const speak = (text: string, languageCode: string) => {
+    speechQueue.enqueue(text, findLanguage(languageCode));
+  };
+
+  // Auto-speak reads the primary (first) target language only.
+  const autoSpeakResults = (results: Record<string, string>) => {
+    const [primary] = Object.keys(results);
+    if (autoSpeakRef.current && primary) speak(results[primary], primary);
+  };
+
+  const handleGlossariesChange = (updated: Glossary[]) => {
+    setGlossaries(updated);
+    saveGlossaries(updated);
+  };
+
+  const handleStyleProfilesChange = (updated: Record<string, TranslationStyle>) => {
+    setStyleProfiles(updated);
+    saveStyleProfiles(updated);
+  };
+
+  const translateOptionsFor = (code: string, source: Language | null): TranslateOptions => ({
+    glossary: glossaryTermsFor(glossaries, code, source?.code),
+    ...(styleProfiles[code] ? { style: styleProfiles[code] } : {}),
+  });
+
+  // Translates into every target language in parallel, reporting each
+  // language's progress as it settles. Targets in the source language are
+  // not sent anywhere and keep the original text, flagged as skipped.
+  // Finished translations are checked against the pair's glossary.
+  // Resolves with the successful translations in target-language order;
+  // throws only if all of them failed. Once `signal` aborts, late results
+  // are no longer shown.
+  const translateIntoAll = async (
+    codes: string[],
+    translateOne: (language: Language, options: TranslateOptions) => Promise<TranslationReply>,
+    original: { text: string; source: Language | null },
+    signal: AbortSignal,
+  ): Promise<Record<string, string>> => {
+    const update = (code: string, result: TranslationResult) => {
+      if (!signal.aborted) updateTranslation(code, result);
+    };
+    setTranslations(prev => Object.fromEntries(codes.map(code => [code, { status: 'pending', text: prev[code]?.text ?? '' }])));
+    setActiveTranslation(active => codes.includes(active) ? active : codes[0]);
+    const settled = await Promise.all(codes.map(async code => {
+      if (original.source && isAlreadyInLanguage(original.source.code, code)) {
+        update(code, { status: 'skipped', text: original.text });
+        return [code, original.text] as const;
+      }
       try {
-        localStorage.setItem('transcriptionHistory', JSON.stringify(updatedHistory));
+        const options = translateOptionsFor(code, original.source);
+        const { translation: text, notes } = await translateOne(findLanguage(code), options);
+        const glossaryMisses = findGlossaryMisses(original.text, text, options.glossary ?? []);
+        update(code, { status: 'done', text, glossaryMisses, ...(notes ? { notes } : {}) });
+        return [code, text] as const;
       } catch (e) {
-        console.error("Failed to save history to localStorage", e);
+        console.error(`Translation error (${code}):`, e);
+        update(code, { status: 'error', text: '', error: describeError(e) });
+        return null;
       }
-      return updatedHistory;
-    });
+    }));
+    const succeeded = settled.filter((result): result is readonly [string, string] => result !== null);
+    if (succeeded.length === 0) {
+      throw new Error('No language could be translated.');
+    }
+    if (succeeded.length < codes.length && !signal.aborted) {
+      const failed = codes.filter(code => !succeeded.some(([done]) => done === code)).map(code => findLanguage(code).name);
+      setError(`Translation failed for ${failed.join(', ')}.`);
+    }
+    return Object.fromEntries(succeeded);
   };
 
-  const translateText = useCallback(async (textToTranslate: string, language: string) => {
-    if (!textToTranslate.trim()) return;
+  // Runs within the current recording run; its results are dropped if the run
+  // is cancelled. Resolves with what to save, which is up to the caller.
+  const translateText = useCallback(async (textToTranslate: string, languages: string[]): Promise<Omit<HistoryEntry, 'id' | 'createdAt'> | null> => {
+    if (!textToTranslate.trim()) return null;
 
-    setRecordingState(RecordingState.TRANSLATING);
-    setTranslatedText('Translating...');
+    const signal = machine.signal();
     setError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      const selectedLanguageName = TARGET_LANGUAGES.find(l => l.code === language)?.name || language;
-      const prompt = `Translate the following text to ${selectedLanguageName}: "${textToTranslate}"`;
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-      });
-
-      const translation = response.text;
-      setTranslatedText(translation);
-      saveToHistory({
+      const source = await newSourceResolver()(textToTranslate);
+      // When detection found nothing, the language the model reports is the source.
+      let detected: string | undefined;
+      const results = await translateIntoAll(
+        languages,
+        async (language, options) => {
+          const reply = await provider.translateText(textToTranslate, language, source ?? undefined, options);
+          detected ??= reply.detectedSourceLanguage;
+          return reply;
+        },
+        { text: textToTranslate, source },
+        signal,
+      );
+      if (signal.aborted) return null;
+      if (!source && detected) setResolvedSource({ code: detected, detected: true });
+      autoSpeakResults(results);
+      return {
         transcribedText: textToTranslate,
-        translatedText: translation,
-        targetLanguage: selectedLanguageName,
-      });
+        sourceLanguage: source?.code ?? detected,
+        ...withTranslations(results),
+        ...stylesFor(styleProfiles, languages),
+      };
     } catch (e) {
       console.error('Translation error:', e);
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred during translation.';
-      setError(`Translation failed: ${errorMessage}`);
-      setTranslatedText('');
-    } finally {
-      setRecordingState(RecordingState.IDLE);
+      if (!signal.aborted) setError(describeError(e, 'Translation failed'));
+      return null;
     }
-  }, []);
+  }, [provider, sourceLanguage, glossaries, styleProfiles, speechQueue]);
 
-  const stopRecording = useCallback(async () => {
-    if (recordingStateRef.current !== RecordingState.RECORDING) {
+  // Completes a live session's translation: segments already translated while
+  // speaking are reused, only the unfinished tail is sent now.
+  const finishLiveTranslation = useCallback(async (finalText: string) => {
+    const translators = incrementalTranslatorsRef.current;
+    const resolveSource = sourceResolverRef.current;
+    incrementalTranslatorsRef.current = null;
+    sourceResolverRef.current = null;
+    if (!translators || !resolveSource) {
+      const content = await translateText(finalText, targetLanguages);
+      if (content) currentEntryRef.current = saveToHistory(content);
       return;
     }
-    setRecordingState(RecordingState.STOPPING);
-    
-    if (sessionPromiseRef.current) {
-      const session = await sessionPromiseRef.current;
-      session.close();
-      sessionPromiseRef.current = null;
+
+    const signal = machine.signal();
+    setError(null);
+    try {
+      const source = await resolveSource(finalText);
+      const results = await translateIntoAll(
+        Object.keys(translators),
+        async language => ({ translation: await translators[language.code].flush(finalText) }),
+        { text: finalText, source },
+        signal,
+      );
+      if (signal.aborted) return;
+      currentEntryRef.current = saveToHistory({
+        transcribedText: finalText,
+        sourceLanguage: source?.code,
+        ...withTranslations(results),
+        ...stylesFor(styleProfiles, Object.keys(translators)),
+      });
+    } catch (e) {
+      console.error('Translation error:', e);
+      if (!signal.aborted) setError(describeError(e, 'Translation failed'));
+    }
+  }, [targetLanguages, styleProfiles, translateText]);
+
+  // Hands-free and push-to-talk keep listening after each utterance: it is
+  // translated and saved on its own while fresh translators take the next one.
+  const completeUtterance = () => {
+    const finalText = currentTranscriptionRef.current;
+    currentTranscriptionRef.current = '';
+    if (!finalText.trim()) return;
+    setTranscribedText(finalText);
+    pendingUtterancesRef.current.push(finishLiveTranslation(finalText));
+    startIncrementalTranslation();
+  };
+
+  const updateTurn = (conversation: ActiveConversation, id: string, patch: Partial<LiveConversationTurn>) => {
+    if (conversation.signal.aborted) return;
+    conversation.turns = conversation.turns.map(turn => turn.id === id ? { ...turn, ...patch } : turn);
+    setConversationTurns(conversation.turns);
+  };
+
+  // Works out who spoke and translates the turn into the other speaker's
+  // language. Never rejects: failures are recorded on the turn.
+  const translateTurn = async (conversation: ActiveConversation, text: string) => {
+    const id = crypto.randomUUID();
+    const previous = [...conversation.turns].reverse().find(turn => turn.speaker)?.speaker ?? null;
+    conversation.turns = [...conversation.turns, { id, speaker: null, text, translation: { status: 'pending', text: '' } }];
+    setConversationTurns(conversation.turns);
+    // A manual speaker choice applies to one turn only.
+    const assigned = nextSpeakerRef.current;
+    if (assigned !== AUTO_DETECT) {
+      nextSpeakerRef.current = AUTO_DETECT;
+      setNextSpeaker(AUTO_DETECT);
+    }
+    const speaker = await resolveTurnSpeaker(text, conversation.languages, assigned, previous, provider.detectLanguage);
+    updateTurn(conversation, id, { speaker });
+    const source = findLanguage(speakerLanguage(conversation.languages, speaker));
+    const target = findLanguage(speakerLanguage(conversation.languages, otherSpeaker(speaker)));
+    try {
+      const options = translateOptionsFor(target.code, source);
+      const { translation: translated } = await provider.translateText(text, target, source, options);
+      const glossaryMisses = findGlossaryMisses(text, translated, options.glossary ?? []);
+      updateTurn(conversation, id, { translation: { status: 'done', text: translated, glossaryMisses } });
+      if (autoSpeakRef.current) speak(translated, target.code);
+    } catch (e) {
+      console.error('Conversation turn translation error:', e);
+      updateTurn(conversation, id, { translation: { status: 'error', text: '', error: describeError(e) } });
     }
+  };
+
+  // Hands whatever has been transcribed since the last turn to `translateTurn`.
+  const takeTurn = (conversation: ActiveConversation) => {
+    const text = currentTranscriptionRef.current.trim();
+    currentTranscriptionRef.current = '';
+    setTranscribedText('');
+    if (text) conversation.pending.push(translateTurn(conversation, text));
+  };
+
+  // In conversation mode the session stays open after a turn, ready for the reply.
+  const completeTurn = () => {
+    if (conversationRef.current) takeTurn(conversationRef.current);
+  };
+
+  // Saves the whole conversation as a single history entry once every turn has settled.
+  const finishConversation = async (conversation: ActiveConversation) => {
+    machine.send('process', conversation.signal);
+    await Promise.all(conversation.pending);
+    if (conversation.signal.aborted) return;
+    const turns = conversation.turns.flatMap(turn => turn.speaker ? [{
+      speaker: turn.speaker,
+      text: turn.text,
+      translatedText: turn.translation.status === 'done' ? turn.translation.text : '',
+    }] : []);
+    if (turns.length > 0) {
+      const content = { ...conversationToHistory({ languages: conversation.languages, turns }), ...stylesFor(styleProfiles, conversation.languages) };
+      if (conversation.resumes) {
+        const revised = reviseHistoryEntry(conversation.resumes, content);
+        currentEntryRef.current = revised;
+        storeHistoryEntry(revised);
+      } else {
+        saveToHistory(content);
+      }
+    }
+    machine.send('done', conversation.signal);
+  };
+
+  // Closes the live session and releases the microphone. Resolves with the
+  // local recording if the microphone was being recorded for the capture queue.
+  const releaseCapture = async (): Promise<LocalRecording | null> => {
+    const sessionPromise = sessionPromiseRef.current;
+    const capturePromise = capturePromiseRef.current;
+    const localRecorder = localRecorderRef.current;
+    sessionPromiseRef.current = null;
+    capturePromiseRef.current = null;
+    localRecorderRef.current = null;
+    // The recorder has to finish before the tracks it records are stopped.
+    const recording = await localRecorder?.stop() ?? null;
     if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
         streamRef.current = null;
     }
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
+    levelFeed.publish(null);
+    setConnectionNotice(null);
+    setVoiceActive(false);
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    setRecordingOffline(false);
+    const [session, capture] = await Promise.all([
+      sessionPromise?.catch(() => null),
+      capturePromise?.catch(() => null),
+    ]);
+    session?.close();
+    await capture?.stop();
+    return recording;
+  };
+
+  // Drops everything a live session left behind, for when it ends without being translated.
+  const discardLiveSession = () => {
+    conversationRef.current = null;
+    incrementalTranslatorsRef.current = null;
+    sourceResolverRef.current = null;
+    currentTranscriptionRef.current = '';
+    pendingUtterancesRef.current = [];
+    releaseCapture();
+  };
+
+  const refreshCaptureJobs = () =>
+    listCaptureJobs()
+      .then(setCaptureJobs)
+      .catch(e => console.error('Failed to load saved recordings', e));
+
+  // Works through the queued recordings one at a time, oldest first, while
+  // online. Each becomes a history entry dated when it was recorded.
+  const processCaptureQueue = async () => {
+    if (processingQueueRef.current || !navigator.onLine) return;
+    processingQueueRef.current = true;
+    // Recordings another tab has taken, left to it.
+    const taken = new Set<string>();
+    try {
+      while (navigator.onLine) {
+        const next = (await listCaptureJobs()).find(queued => queued.status === 'pending' && !taken.has(queued.id));
+        if (!next) break;
+        // Resolves with whether to carry on with the next recording.
+        const carryOn = await withJobLock('capture', next.id, async () => {
+          const job = await transitionCaptureJob(next.id, ['pending'], { status: 'processing' });
+          if (!job) {
+            taken.add(next.id);
+            return true;
+          }
+          refreshCaptureJobs();
+          try {
+            const entry = await processCaptureJob(job, { provider, glossaries: loadGlossaries() });
+            storeHistoryEntry({ ...entry, id: crypto.randomUUID(), createdAt: job.createdAt });
+            await deleteCaptureJob(job.id);
+            return true;
+          } catch (e) {
+            console.error('Saved recording could not be processed:', e);
+            // Connection problems leave the job queued for the next time the app
+            // is online; anything else waits for the user to retry or delete it.
+            const transient = isTransientError(e);
+            await updateCaptureJob(job.id, { status: transient ? 'pending' : 'failed', error: describeError(e), attempts: job.attempts + 1 });
+            return !transient;
+          }
+        });
+        if (carryOn === null) taken.add(next.id);
+        else if (!carryOn) break;
+      }
+    } catch (e) {
+      console.error('Failed to process saved recordings', e);
+    } finally {
+      processingQueueRef.current = false;
+      refreshCaptureJobs();
     }
-    if (mediaStreamSourceRef.current) {
-        mediaStreamSourceRef.current.disconnect();
-        mediaStreamSourceRef.current = null;
+  };
+
+  const queueRecording = async (recording: LocalRecording) => {
+    try {
+      await addCaptureJob({
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        audio: recording.audio,
+        durationMs: recording.durationMs,
+        sourceLanguage,
+        targetLanguages,
+        ...stylesFor(styleProfiles, targetLanguages),
+        status: 'pending',
+        attempts: 0,
+      });
+      setConnectionNotice('The recording was saved on this device. It will be transcribed and translated once you are back online.');
+      refreshCaptureJobs();
+      processCaptureQueue();
+    } catch (e) {
+      console.error('Failed to save the recording', e);
+      setError(describeError(e, 'The recording could not be saved'));
     }
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        await audioContextRef.current.close();
-        audioContextRef.current = null;
+  };
+
+  const retryCaptureJob = async (id: string) => {
+    await updateCaptureJob(id, { status: 'pending', error: undefined });
+    refreshCaptureJobs();
+    processCaptureQueue();
+  };
+
+  const removeCaptureJob = async (id: string) => {
+    await deleteCaptureJob(id);
+    refreshCaptureJobs();
+  };
+
+  const refreshBatchJobs = () =>
+    listBatchJobs()
+      .then(setBatchJobs)
+      .catch(e => console.error('Failed to load the batch queue', e));
+
+  // Each file becomes its own history entry. A failure stays with the file
+  // until it is retried; the rest of the batch carries on. Resolves with
+  // false, without running it, if another tab has the job.
+  const runBatchJob = (id: string) => withJobLock('batch', id, async () => {
+    const job = await transitionBatchJob(id, ['queued'], { status: 'transcribing', error: undefined });
+    if (!job) return false;
+    const update = async (patch: Partial<Omit<BatchJob, 'id'>>) => {
+      await updateBatchJob(job.id, patch);
+      refreshBatchJobs();
+    };
+    refreshBatchJobs();
+    try {
+      const content = await processCaptureJob(job, {
+        provider,
+        glossaries: loadGlossaries(),
+        onTranslating: () => {
+          update({ status: 'translating' });
+        },
+      });
+      const entry = saveToHistory(content);
+      await update({ status: 'done', historyEntryId: entry.id });
+    } catch (e) {
+      console.error(`Batch file ${job.fileName} could not be processed:`, e);
+      await update({ status: 'failed', error: describeError(e) });
     }
+    return true;
+  }).then(ran => ran === true);
 
-    if(currentTranscriptionRef.current.trim()){
-        const finalText = currentTranscriptionRef.current;
-        currentTranscriptionRef.current = '';
-        setTranscribedText(finalText);
-        translateText(finalText, targetLanguage);
-    } else {
-        setRecordingState(RecordingState.IDLE);
+  // Keeps up to BATCH_CONCURRENCY files in progress in this window, oldest first, while online.
+  const processBatchQueue = async () => {
+    if (!navigator.onLine) return;
+    const running = runningBatchJobsRef.current;
+    try {
+      const queued = (await listBatchJobs()).filter(job => job.status === 'queued' && !running.has(job.id));
+      queued.slice(0, Math.max(0, BATCH_CONCURRENCY - running.size)).forEach(job => {
+        running.add(job.id);
+        runBatchJob(job.id)
+          .catch(e => {
+            console.error('Failed to process the batch queue', e);
+            return true;
+          })
+          .then(ran => {
+            running.delete(job.id);
+            // A job another tab has taken is left to it rather than looked at again straight away.
+            if (ran) processBatchQueue();
+          });
+      });
+    } catch (e) {
+      console.error('Failed to process the batch queue', e);
     }
-  }, [targetLanguage, translateText]);
+  };
 
-  const handleMessage = (message: LiveServerMessage) => {
-    if (message.serverContent?.inputTranscription) {
-      const text = message.serverContent.inputTranscription.text;
-      currentTranscriptionRef.current += text;
-      setTranscribedText(currentTranscriptionRef.current);
+  // Queued with the language settings of the moment, like a single upload.
+  const queueFiles = async (files: File[]) => {
+    const now = Date.now();
+    try {
+      await addBatchJobs(files.map((file, i) => ({
+        id: crypto.randomUUID(),
+        // Apart by a millisecond each, so they are processed in the order given.
+        createdAt: now + i,
+        fileName: file.name,
+        audio: file,
+        sourceLanguage,
+        targetLanguages,
+        ...stylesFor(styleProfiles, targetLanguages),
+        status: 'queued',
+      })));
+      refreshBatchJobs();
+      processBatchQueue();
+    } catch (e) {
+      console.error('Failed to queue the files', e);
+      setError(describeError(e, 'The files could not be queued'));
     }
-    if (message.serverContent?.turnComplete) {
-      stopRecording();
+  };
+
+  const retryBatchJob = async (id: string) => {
+    await updateBatchJob(id, { status: 'queued', error: undefined });
+    refreshBatchJobs();
+    processBatchQueue();
+  };
+
+  const removeBatchJob = async (id: string) => {
+    await deleteBatchJob(id);
+    refreshBatchJobs();
+  };
+
+  // Their history entries stay.
+  const clearFinishedBatchJobs = async () => {
+    await Promise.all(batchJobs.filter(job => job.status === 'done').map(job => deleteBatchJob(job.id)));
+    refreshBatchJobs();
+  };
+
+  // Shows a finished file's result in the cards, with its audio loaded for playback.
+  const viewBatchResult = async (job: BatchJob) => {
+    if (isProcessing) return;
+    const [entry] = job.historyEntryId ? await getHistoryEntries([job.historyEntryId]) : [];
+    if (!entry) {
+      setError(`The result for ${job.fileName} is no longer in the history.`);
+      return;
+    }
+    openHistoryEntry(entry);
+    const file = new File([job.audio], job.fileName, { type: job.audio.type });
+    setAudioFile(file);
+    if (audioPlayerRef.current) {
+      audioPlayerRef.current.src = URL.createObjectURL(file);
     }
   };
 
-  const handleError = (e: ErrorEvent) => {
+  // Usage is metered by the API server; the offline demo provider uses none.
+  const refreshUsage = () => {
+    if (provider.id === 'mock') return;
+    fetchUsage()
+      .then(setUsage)
+      .catch(e => {
+        console.warn('Could not load usage', e);
+        setUsage(null);
+      });
+  };
+
+  const saveBudget = async (budget: UsageBudget) => {
+    setUsage(await saveUsageBudget(budget));
+  };
+
+  // Caption windows opened from this one show what the cards show, as it changes.
+  const captionPublisherRef = useRef<CaptionPublisher | null>(null);
+  useEffect(() => {
+    const publisher = createCaptionPublisher();
+    captionPublisherRef.current = publisher;
+    return () => publisher.close();
+  }, []);
+
+  // In conversation mode the captions follow the latest turn, translated into the other speaker's language.
+  useEffect(() => {
+    if (mode === 'conversation') {
+      const [latest] = conversationTurns.slice(-1);
+      const target = latest?.speaker && speakerLanguage(conversationLanguages, otherSpeaker(latest.speaker));
+      captionPublisherRef.current?.publish({
+        transcript: transcribedText || latest?.text || '',
+        translations: target && latest.translation.text ? { [target]: latest.translation.text } : {},
+      });
+      return;
+    }
+    captionPublisherRef.current?.publish({
+      transcript: transcribedText,
+      translations: Object.fromEntries(Object.entries(translations)
+        .filter(([, result]: [string, TranslationResult]) => result.text)
+        .map(([code, result]: [string, TranslationResult]) => [code, result.text])),
+    });
+  }, [mode, transcribedText, translations, conversationTurns, conversationLanguages]);
+
+  // Totals move with every request, so they are fetched again whenever the app settles.
+  useEffect(() => {
+    if (recordingState === RecordingState.IDLE || recordingState === RecordingState.ERROR) refreshUsage();
+  }, [recordingState, historyVersion]);
+
+  useEffect(() => {
+    // Jobs still marked as processing or in progress were interrupted when the
+    // app was closed, unless another open tab is working on them.
+    listCaptureJobs()
+      .then(jobs => Promise.all(jobs.filter(job => job.status === 'processing').map(job =>
+        withJobLock('capture', job.id, () => transitionCaptureJob(job.id, ['processing'], { status: 'pending' })))))
+      .catch(e => console.error('Failed to load saved recordings', e))
+      .finally(() => {
+        refreshCaptureJobs();
+        processCaptureQueue();
+      });
+    listBatchJobs()
+      .then(jobs => Promise.all(jobs.filter(job => job.status === 'transcribing' || job.status === 'translating').map(job =>
+        withJobLock('batch', job.id, () => transitionBatchJob(job.id, ['transcribing', 'translating'], { status: 'queued' })))))
+      .catch(e => console.error('Failed to load the batch queue', e))
+      .finally(() => {
+        refreshBatchJobs();
+        processBatchQueue();
+      });
+    const onOnline = () => {
+      setIsOnline(true);
+      processCaptureQueue();
+      processBatchQueue();
+    };
+    const onOffline = () => setIsOnline(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
+  const stopRecording = useCallback(async () => {
+    if (!machine.send('stop')) {
+      return;
+    }
+    const signal = machine.signal();
+    const recording = await releaseCapture();
+    if (signal.aborted) return;
+    if (recording) {
+        await queueRecording(recording);
+        machine.send('done', signal);
+        return;
+    }
+
+    const conversation = conversationRef.current;
+    if (conversation) {
+        conversationRef.current = null;
+        takeTurn(conversation);
+        finishConversation(conversation);
+        return;
+    }
+    const finalText = currentTranscriptionRef.current;
+    const pending = pendingUtterancesRef.current;
+    currentTranscriptionRef.current = '';
+    pendingUtterancesRef.current = [];
+    machine.send('process', signal);
+    if (finalText.trim()) {
+        setTranscribedText(finalText);
+        pending.push(finishLiveTranslation(finalText));
+    } else {
+        incrementalTranslatorsRef.current = null;
+    }
+    // Earlier utterances of a hands-free session may still be translating.
+    await Promise.all(pending);
+    machine.send('done', signal);
+  }, [finishLiveTranslation]);
+
+  // Abandons the work in progress. Anything still on its way back is discarded.
+  const cancel = () => {
+    if (!machine.send('cancel')) return;
+    discardLiveSession();
+    setTranslations(prev => Object.fromEntries(Object.entries(prev).filter(([, result]: [string, TranslationResult]) => result.status !== 'pending')));
+    setConversationTurns(turns => turns.map(turn => turn.translation.status === 'pending'
+      ? { ...turn, translation: { status: 'error', text: '', error: 'Cancelled.' } }
+      : turn));
+  };
+
+  const handleTranscription = (text: string) => {
+    currentTranscriptionRef.current += text;
+    setTranscribedText(currentTranscriptionRef.current);
+    Object.values(incrementalTranslatorsRef.current ?? {}).forEach((translator: IncrementalTranslator) => translator.push(currentTranscriptionRef.current));
+  };
+
+  // Ends the live session of `run` with an error, unless that run is already over.
+  const handleError = (e: Error, run: AbortSignal) => {
+    if (!machine.send('fail', run)) return;
     console.error('Live session error:', e);
-    setError(`An error occurred: ${e.message}. Please try again.`);
-    stopRecording();
-    setRecordingState(RecordingState.ERROR);
+    discardLiveSession();
+    setError(describeError(e, 'The live session stopped'));
+  };
+
+  // Sets up per-language translators that work through the transcript while the speaker is still talking.
+  const startIncrementalTranslation = () => {
+    const signal = machine.signal();
+    const resolveSource = newSourceResolver();
+    sourceResolverRef.current = resolveSource;
+    // Segments wait for the source language, which auto-detect resolves from the first one.
+    const translateSegment = async (text: string, language: Language) => {
+      const source = await resolveSource(text);
+      return source && isAlreadyInLanguage(source.code, language.code)
+        ? text
+        : (await provider.translateText(text, language, source ?? undefined, translateOptionsFor(language.code, source))).translation;
+    };
+    incrementalTranslatorsRef.current = Object.fromEntries(targetLanguages.map(code => [code, createIncrementalTranslator({
+      language: findLanguage(code),
+      translate: translateSegment,
+      onUpdate: text => !signal.aborted && updateTranslation(code, { status: 'pending', text }),
+      // Speak each finished segment while the speaker keeps talking; the queue keeps them in order.
+      onSegment: code === targetLanguages[0]
+        ? text => !signal.aborted && autoSpeakRef.current && speak(text, code)
+        : undefined,
+    })]));
+  };
+
+  // Records the microphone on the device for the capture queue, with the
+  // level meter still running.
+  const startLocalCapture = (stream: MediaStream, signal: AbortSignal) => {
+    if (!machine.send('connected', signal)) return;
+    incrementalTranslatorsRef.current = null;
+    sourceResolverRef.current = null;
+    try {
+      localRecorderRef.current = startLocalRecording(stream);
+    } catch (e) {
+      handleError(e instanceof Error ? e : new Error('Could not record the microphone.'), signal);
+      return;
+    }
+    setRecordingOffline(true);
+    const capturePromise = startMicrophoneCapture({ stream, onAudio: () => {}, onLevel: levelFeed.publish });
+    capturePromiseRef.current = capturePromise;
+    capturePromise.catch(e => console.warn('Input level is unavailable:', e));
   };
 
   const startRecording = async () => {
-    if (recordingState === RecordingState.RECORDING) {
+    if (machine.getState() === RecordingState.RECORDING) {
         stopRecording();
         return;
     }
@@ -210,57 +864,112 @@ const App: React.FC = () => {
     // Clear any selected file before starting recording
     if (audioFile) clearAudioFile();
 
-    setRecordingState(RecordingState.REQUESTING_PERMISSION);
+    // Offline, a recording can only be kept for later, which needs a single speaker's
+    // recording rather than a conversation's turns.
+    const offline = !navigator.onLine && provider.id !== 'mock';
+    if (offline && mode === 'conversation') {
+      setError('Conversation mode needs a connection. Switch to Translate to record now and translate later.');
+      return;
+    }
+
+    if (!machine.send('start')) return;
+    const signal = machine.signal();
+    const fail = (e: Error) => handleError(e, signal);
     setError(null);
+    setConnectionNotice(null);
+    setIsEditingTranscript(false);
+    // A reopened conversation carries on when it is recorded in the same languages.
+    const reopened = currentEntryRef.current?.conversation;
+    const resumes = mode === 'conversation' && reopened && reopened.languages.every((code, i) => code === conversationLanguages[i])
+      ? currentEntryRef.current ?? undefined
+      : undefined;
+    currentEntryRef.current = null;
     setTranscribedText('');
-    setTranslatedText('');
+    setTranslations({});
+    setActiveTranslation(targetLanguages[0]);
+    setSegments([]);
+    setResolvedSource(null);
     currentTranscriptionRef.current = '';
-    
+    if (mode === 'conversation') {
+      const turns = resumes?.conversation ? restoreConversationTurns(resumes.conversation) : [];
+      conversationRef.current = { languages: conversationLanguages, turns, pending: [], signal, ...(resumes ? { resumes } : {}) };
+      setConversationTurns(turns);
+    } else {
+      startIncrementalTranslation();
+    }
+
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (signal.aborted) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
+      if (offline) {
+        startLocalCapture(stream, signal);
+        return;
+      }
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            setRecordingState(RecordingState.RECORDING);
-            const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-            audioContextRef.current = new AudioContext({ sampleRate: 16000 });
-            const source = audioContextRef.current.createMediaStreamSource(stream);
-            mediaStreamSourceRef.current = source;
-            const scriptProcessor = audioContextRef.current.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextRef.current.destination);
-          },
-          onmessage: handleMessage,
-          onerror: handleError,
-          onclose: () => console.log('Live session closed.'),
+      const sessionPromise = provider.connectLive({
+        onOpen: () => {
+          if (!machine.send('connected', signal)) return;
+          // Only speech is streamed: silence between utterances is trimmed, and
+          // the server is told when each one ends.
+          const detector = createVoiceActivityDetector();
+          let wasVoiced = false;
+          const gate = createVoiceGate({
+            send: (pcmBlob) => sessionPromise.then((session) => session.sendAudio(pcmBlob)),
+            endStream: () => sessionPromise.then((session) => session.endAudioStream()),
+          });
+          const capturePromise = startMicrophoneCapture({
+            stream,
+            onAudio: (pcmBlob, level) => {
+              const voiced = detector.update(level.rms, level.durationMs);
+              if (voiced !== wasVoiced) {
+                wasVoiced = voiced;
+                setVoiceActive(voiced);
+              }
+              // Hold back the microphone while a translation is read aloud, so the playback is not transcribed as speech.
+              const open = !isSpeakingRef.current && (captureMode === 'push-to-talk' ? isTalkingRef.current : voiced);
+              gate.push(pcmBlob, open);
+            },
+            onLevel: levelFeed.publish,
+          });
+          capturePromiseRef.current = capturePromise;
+          capturePromise.catch(e => fail(e instanceof Error ? e : new Error('Could not capture microphone audio.')));
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
+        onTranscription: text => !signal.aborted && handleTranscription(text),
+        onTurnComplete: () => {
+          if (signal.aborted) return;
+          if (mode === 'conversation') completeTurn();
+          else if (captureMode === 'toggle') stopRecording();
+          else completeUtterance();
         },
+        onError: fail,
+        onClose: () => console.log('Live session closed.'),
+        onReconnecting: attempt => setConnectionNotice(`Connection lost. Reconnecting (attempt ${attempt})... Speech is kept and sent once reconnected.`),
+        onReconnected: () => setConnectionNotice(null),
       });
       sessionPromiseRef.current = sessionPromise;
+      sessionPromise.catch(e => {
+        // Not being able to reach the service at all is handled like being offline.
+        if (mode !== 'conversation' && isTransientError(e) && machine.getState() === RecordingState.REQUESTING_PERMISSION && !signal.aborted) {
+          sessionPromiseRef.current = null;
+          startLocalCapture(stream, signal);
+          return;
+        }
+        fail(e instanceof Error ? e : new Error('Could not connect the live session.'));
+      });
     } catch (err) {
+      if (!machine.send('fail', signal)) return;
       console.error('Error starting recording:', err);
+      discardLiveSession();
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       if (errorMessage.includes('Permission denied')) {
         setError('Microphone permission denied. Please allow microphone access in your browser settings.');
       } else {
-        setError(`Failed to start recording: ${errorMessage}`);
+        setError(describeError(err, 'Failed to start recording'));
       }
-      setRecordingState(RecordingState.ERROR);
     }
   };
 
@@ -270,68 +979,260 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  // One file opens in the player; several go to the batch queue.
+  const handleFiles = (files: File[]) => {
+    const audioFiles = files.filter(file => file.type.startsWith('audio/'));
+    if (audioFiles.length < files.length) {
+      setError(`Only audio files can be translated; ${files.length - audioFiles.length} other ${files.length - audioFiles.length === 1 ? 'file was' : 'files were'} left out.`);
+    }
+    if (audioFiles.length > 1) {
+      queueFiles(audioFiles);
+      return;
+    }
+    const [file] = audioFiles;
     if (file) {
-      setError(null);
+      if (audioFiles.length === files.length) setError(null);
       setTranscribedText('');
-      setTranslatedText('');
+      setTranslations({});
+      setSegments([]);
+      setSpeakerNames({});
+      currentEntryRef.current = null;
+      setFileProgress(null);
+      setResolvedSource(null);
       setAudioFile(file);
       if(audioPlayerRef.current) {
         audioPlayerRef.current.src = URL.createObjectURL(file);
       }
     }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles([...(event.target.files ?? [])]);
     // Reset file input value to allow re-uploading the same file
     if(event.target) event.target.value = '';
   };
 
+  const handleFileDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (mode === 'conversation' || isProcessing || !event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (mode === 'conversation' || isProcessing) return;
+    event.preventDefault();
+    handleFiles([...event.dataTransfer.files]);
+  };
+
   const clearAudioFile = () => {
+    cancel();
+    setFileProgress(null);
     setAudioFile(null);
     setIsPlaying(false);
     setDuration(0);
     setCurrentTime(0);
+    setSegments([]);
+    setSpeakerNames({});
+    currentEntryRef.current = null;
     if(audioPlayerRef.current) {
         audioPlayerRef.current.pause();
         audioPlayerRef.current.removeAttribute('src');
     }
   };
 
+  // Translates a timed transcript segment by segment. Resolves with what to
+  // save, which is up to the caller.
+  const translateFileSegments = async (fileSegments: TranscriptSegment[], languages: string[], names: Record<string, string>, signal: AbortSignal): Promise<Omit<HistoryEntry, 'id' | 'createdAt'> | null> => {
+    try {
+      const transcription = segmentsToText(fileSegments, undefined, names);
+      const source = await newSourceResolver()(transcription);
+      const segmentTranslations: Record<string, string[]> = {};
+      const results = await translateIntoAll(languages, async (language, options) => {
+        const translated = await provider.translateSegments(fileSegments.map(s => s.text), language, source ?? undefined, options);
+        segmentTranslations[language.code] = translated;
+        return { translation: segmentsToText(fileSegments.map((segment, i) => ({ ...segment, translations: { [language.code]: translated[i] } })), language.code, names) };
+      }, { text: transcription, source }, signal);
+      if (signal.aborted) return null;
+      const translatedSegments = fileSegments.map((segment, i) => ({
+        ...segment,
+        // Skipped (same-language) targets reuse the original segment text.
+        translations: Object.fromEntries(Object.keys(results).map(code => [code, segmentTranslations[code]?.[i] ?? segment.text])),
+      }));
+      setSegments(translatedSegments);
+      autoSpeakResults(results);
+      return {
+        transcribedText: transcription,
+        sourceLanguage: source?.code,
+        ...withTranslations(results),
+        segments: translatedSegments,
+        ...(Object.keys(names).length > 0 ? { speakers: names } : {}),
+        ...stylesFor(styleProfiles, languages),
+      };
+    } catch (e) {
+      console.error('Translation error:', e);
+      if (!signal.aborted) setError(describeError(e, 'Translation failed'));
+      return null;
+    }
+  };
+
   const transcribeAudioFile = async () => {
-    if (!audioFile) return;
+    if (!audioFile || !machine.send('process')) return;
 
-    setRecordingState(RecordingState.TRANSLATING);
+    const signal = machine.signal();
     setTranscribedText('Transcribing audio file...');
-    setTranslatedText('');
+    setTranslations({});
+    setResolvedSource(null);
+    setSegments([]);
+    setSpeakerNames({});
+    currentEntryRef.current = null;
+    setFileProgress(null);
     setError(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      const audioData = await fileToBase64(audioFile);
-      const audioPart = {
-        inlineData: {
-          mimeType: audioFile.type,
-          data: audioData,
-        },
-      };
-      const textPart = { text: "Transcribe the audio." };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [audioPart, textPart] },
+      let fileSegments: TranscriptSegment[];
+      const samples = await decodeToMono(await audioFile.arrayBuffer(), CHUNK_SAMPLE_RATE).catch(e => {
+        console.warn('Could not decode the audio file locally:', e);
+        return null;
       });
-
-      const transcription = response.text;
-      setTranscribedText(transcription);
-      translateText(transcription, targetLanguage);
+      if (samples) {
+        const result = await transcribeInChunks({
+          samples,
+          sampleRate: CHUNK_SAMPLE_RATE,
+          transcribe: provider.transcribeAudio,
+          signal,
+          onProgress: (progress, partial) => {
+            setFileProgress(progress);
+            if (partial.length > 0) {
+              setSegments(partial);
+              setTranscribedText(segmentsToText(partial));
+            }
+          },
+        });
+        if (result.cancelled) {
+          // The transcript of the finished chunks stays on screen; nothing is translated or saved.
+          setFileProgress(progress => progress && { ...progress, cancelled: true });
+          return;
+        }
+        fileSegments = result.segments;
+      } else {
+        // Formats the browser cannot decode are sent as they are, in one request.
+        fileSegments = await provider.transcribeAudio({
+          mimeType: audioFile.type,
+          data: await blobToBase64(audioFile),
+        });
+        if (signal.aborted) return;
+      }
+      if (fileSegments.length === 0) {
+        throw new Error('No speech was found in the audio file.');
+      }
+      setSegments(fileSegments);
+      setTranscribedText(segmentsToText(fileSegments));
+      const content = await translateFileSegments(fileSegments, targetLanguages, {}, signal);
+      if (content) currentEntryRef.current = saveToHistory(content);
+      machine.send('done', signal);
     } catch (e) {
+      if (!machine.send('fail', signal)) return;
       console.error('File transcription error:', e);
-      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
-      setError(`File transcription failed: ${errorMessage}`);
+      setError(describeError(e, 'File transcription failed'));
       setTranscribedText('');
-      setRecordingState(RecordingState.ERROR);
+      setFileProgress(null);
     }
   };
   
+  // Saves an edited transcript's translation over the entry on screen, keeping
+  // the version it replaces as a revision. Without one it is a new entry.
+  const saveRevision = (content: Omit<HistoryEntry, 'id' | 'createdAt'>) => {
+    const current = currentEntryRef.current;
+    if (!current) {
+      currentEntryRef.current = saveToHistory(content);
+      return;
+    }
+    const revised = reviseHistoryEntry(current, content);
+    currentEntryRef.current = revised;
+    storeHistoryEntry(revised);
+  };
+
+  // Translates the transcript on screen again, as edited, into the languages selected now.
+  const retranslate = async (text: string, editedSegments: TranscriptSegment[]) => {
+    if (!machine.send('process')) return;
+    const signal = machine.signal();
+    setIsEditingTranscript(false);
+    setTranslations({});
+    setActiveTranslation(targetLanguages[0]);
+    setResolvedSource(null);
+    let content: Omit<HistoryEntry, 'id' | 'createdAt'> | null;
+    if (editedSegments.length > 0) {
+      setSegments(editedSegments);
+      setTranscribedText(segmentsToText(editedSegments, undefined, speakerNames));
+      content = await translateFileSegments(editedSegments, targetLanguages, speakerNames, signal);
+    } else {
+      setSegments([]);
+      setTranscribedText(text);
+      content = await translateText(text, targetLanguages);
+    }
+    if (content && !signal.aborted) saveRevision(content);
+    machine.send('done', signal);
+  };
+
+  // Shows a saved entry in the cards, where it can be edited and translated again.
+  // A conversation goes back to the conversation view, where recording carries it on.
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    if (isProcessing) return;
+    if (audioFile) clearAudioFile();
+    if (entry.conversation) {
+      setMode('conversation');
+      setIsEditingTranscript(false);
+      setError(null);
+      setConnectionNotice(null);
+      setTranscribedText('');
+      setSegments([]);
+      setTranslations({});
+      setResolvedSource(null);
+      setConversationLanguages(entry.conversation.languages);
+      setConversationTurns(restoreConversationTurns(entry.conversation));
+      currentEntryRef.current = entry;
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+      return;
+    }
+    const entryTranslations = getEntryTranslations(entry);
+    setMode('translate');
+    setIsEditingTranscript(false);
+    setError(null);
+    setConnectionNotice(null);
+    setTranscribedText(entry.transcribedText);
+    setSegments(entry.segments ?? []);
+    setSpeakerNames(entry.speakers ?? {});
+    setTranslations(Object.fromEntries(Object.entries(entryTranslations).map(([code, text]) => [code, { status: 'done', text }])));
+    setTargetLanguages(Object.keys(entryTranslations));
+    setActiveTranslation(entry.targetLanguage);
+    setResolvedSource(entry.sourceLanguage ? { code: entry.sourceLanguage, detected: false } : null);
+    currentEntryRef.current = entry;
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Renaming relabels the transcript and translations on screen and in the
+  // file's saved history entry.
+  const renameSpeakers = (names: Record<string, string>) => {
+    setSpeakerNames(names);
+    setTranscribedText(segmentsToText(segments, undefined, names));
+    setTranslations(prev => Object.fromEntries(Object.entries(prev).map(([code, result]: [string, TranslationResult]) => [
+      code,
+      result.status === 'done' || result.status === 'skipped' ? { ...result, text: segmentsToText(segments, code, names) } : result,
+    ])));
+    const saved = currentEntryRef.current;
+    if (saved?.segments) {
+      const savedSegments = saved.segments;
+      const updated: HistoryEntry = {
+        ...saved,
+        transcribedText: segmentsToText(savedSegments, undefined, names),
+        ...withTranslations(Object.fromEntries(Object.keys(getEntryTranslations(saved)).map(code => [code, segmentsToText(savedSegments, code, names)]))),
+        speakers: names,
+      };
+      currentEntryRef.current = updated;
+      storeHistoryEntry(updated);
+    }
+  };
+
   const togglePlayPause = () => {
     if (isPlaying) {
       audioPlayerRef.current?.pause();
@@ -341,14 +1242,21 @@ const App: React.FC = () => {
     setIsPlaying(!isPlaying);
   };
   
-  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const time = Number(event.target.value);
+  const seekTo = (time: number) => {
     if(audioPlayerRef.current) {
         audioPlayerRef.current.currentTime = time;
         setCurrentTime(time);
     }
   };
 
+  const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(Number(event.target.value));
+  };
+
+  const handleSegmentSelect = (segment: TranscriptSegment) => {
+    seekTo(segment.start);
+  };
+
   useEffect(() => {
     const audio = audioPlayerRef.current;
     const updateTime = () => setCurrentTime(audio?.currentTime || 0);
@@ -369,24 +1277,58 @@ const App: React.FC = () => {
 
   // --- End of New File Logic ---
 
+  const setTalking = (talking: boolean) => {
+    isTalkingRef.current = talking;
+    setIsTalking(talking);
+  };
+
+  // Push-to-talk: holding the key streams audio, unless focus is in a text field.
+  useEffect(() => {
+    if (captureMode !== 'push-to-talk' || recordingState !== RecordingState.RECORDING) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || isTyping(event.target)) return;
+      event.preventDefault();
+      if (!event.repeat) setTalking(true);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== PUSH_TO_TALK_KEY || !isTalkingRef.current) return;
+      event.preventDefault();
+      setTalking(false);
+    };
+    // A key released while the window is in the background never sends keyup.
+    const onBlur = () => setTalking(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      setTalking(false);
+    };
+  }, [captureMode, recordingState]);
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
 
-  const deleteHistoryItem = (id: string) => {
-    setHistory(prev => {
-        const newHistory = prev.filter(item => item.id !== id);
-        localStorage.setItem('transcriptionHistory', JSON.stringify(newHistory));
-        return newHistory;
-    });
-  };
+  const activeSegmentIndex = audioFile ? findActiveSegmentIndex(segments, currentTime) : -1;
+  const hasSegments = segments.length > 0;
+
+  const activeResult = translations[activeTranslation];
+  const glossaryMisses = activeResult?.glossaryMisses ?? [];
+  const usageNotice = usage ? budgetNotice(usage) : null;
+  const missedSourceTerms = glossaryMisses.map(term => term.source);
+  const activeText = activeResult?.status === 'pending' && !activeResult.text ? 'Translating...' : activeResult?.text ?? '';
 
   const isProcessing = recordingState !== RecordingState.IDLE && recordingState !== RecordingState.ERROR;
 
   return (
     <div className="min-h-screen text-gray-800 dark:text-gray-200 p-4 sm:p-6 lg:p-8 flex flex-col font-sans">
       <audio ref={audioPlayerRef} style={{ display: 'none' }} />
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="audio/*" style={{ display: 'none' }} />
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="audio/*" multiple style={{ display: 'none' }} />
 
       <header className="text-center mb-8">
         <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-500 to-purple-500">
@@ -395,11 +1337,37 @@ const App: React.FC = () => {
         <p className="mt-2 text-lg text-gray-600 dark:text-gray-400">
           Real-time Transcription and Translation with Gemini
         </p>
+        {!isOnline && (
+          <p className="mt-2 inline-block text-xs font-semibold uppercase tracking-wide text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 px-3 py-1 rounded-full">
+            Offline: recordings are saved and translated later
+          </p>
+        )}
+        {provider.id === 'mock' && (
+          <p className="mt-2 inline-block text-xs font-semibold uppercase tracking-wide text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 px-3 py-1 rounded-full">
+            {provider.name} mode: no network or API key in use
+          </p>
+        )}
       </header>
 
       <main className="flex-grow w-full max-w-4xl mx-auto flex flex-col gap-6">
-        <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
-          {!audioFile ? (
+        <div onDragOver={handleFileDragOver} onDrop={handleFileDrop} className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+          <div role="tablist" className="flex justify-center gap-2 mb-6">
+            {APP_MODES.map(([value, label]) => (
+              <button
+                key={value}
+                role="tab"
+                aria-selected={mode === value}
+                onClick={() => setMode(value)}
+                disabled={isProcessing}
+                className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed ${mode === value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {mode === 'conversation' ? (
+            <RecordButton recordingState={recordingState} onClick={startRecording} />
+          ) : !audioFile ? (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
               <RecordButton recordingState={recordingState} onClick={startRecording} />
               <button
@@ -408,8 +1376,11 @@ const App: React.FC = () => {
                 className="flex items-center justify-center gap-3 w-full py-4 px-6 text-lg font-semibold rounded-full shadow-lg transition-all duration-300 ease-in-out focus:outline-none focus:ring-4 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 text-white focus:ring-gray-300 disabled:opacity-60 disabled:cursor-not-allowed"
               >
                 <UploadIcon />
-                <span>Upload File</span>
+                <span>Upload Files</span>
               </button>
+              <p className="md:col-span-2 text-center text-sm text-gray-500 dark:text-gray-400">
+                Or drop audio files here. Several files at once are queued and each is saved to the history.
+              </p>
             </div>
           ) : (
             <div className="space-y-4">
@@ -447,64 +1418,264 @@ const App: React.FC = () => {
                   'Transcribe File'
                 )}
               </button>
+              {fileProgress && (fileProgress.total > 1 || fileProgress.completed < fileProgress.total) && (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {fileProgress.cancelled
+                      ? `Cancelled after ${fileProgress.completed} of ${fileProgress.total} parts. The transcript so far is kept.`
+                      : `Transcribed ${fileProgress.completed} of ${fileProgress.total} parts`}
+                  </p>
+                  <div
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={fileProgress.total}
+                    aria-valuenow={fileProgress.completed}
+                    className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden"
+                  >
+                    <div className="h-full bg-indigo-600 transition-all" style={{ width: `${(fileProgress.completed / fileProgress.total) * 100}%` }} />
+                  </div>
+                </div>
+              )}
+              {speakerIds(segments).length > 0 && (
+                <SpeakerNames
+                  speakerIds={speakerIds(segments)}
+                  names={speakerNames}
+                  onChange={renameSpeakers}
+                  disabled={isProcessing}
+                />
+              )}
+              {hasSegments && (
+                <SubtitleExport
+                  segments={segments}
+                  fileName={audioFile.name}
+                  languageCode={activeTranslation}
+                  sourceLanguageCode={resolvedSource?.code ?? (sourceLanguage === AUTO_DETECT ? undefined : sourceLanguage)}
+                  speakerNames={speakerNames}
+                  disabled={isProcessing}
+                />
+              )}
+            </div>
+          )}
+          {(mode === 'conversation' || !audioFile) && (
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-sm">
+              <span className="font-semibold text-gray-600 dark:text-gray-400">Microphone</span>
+              {CAPTURE_MODES.map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setCaptureMode(value)}
+                  disabled={isProcessing}
+                  aria-pressed={captureMode === value}
+                  className={`px-3 py-1 rounded-full font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed ${captureMode === value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {isProcessing && (
+            <div className="mt-4 flex justify-center">
+              <button
+                onClick={cancel}
+                className="px-4 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {recordingState === RecordingState.RECORDING ? 'Discard recording' : 'Cancel'}
+              </button>
             </div>
           )}
-          <div className="mt-4">
-             <LanguageSelector
-              selectedLanguage={targetLanguage}
-              onLanguageChange={setTargetLanguage}
+          {recordingState === RecordingState.RECORDING && (
+            <div className="mt-4 space-y-3">
+              <LevelMeter feed={levelFeed} />
+              {recordingOffline ? (
+                <p className="text-center text-sm text-amber-700 dark:text-amber-300">No connection: recording on this device to transcribe and translate later.</p>
+              ) : captureMode === 'hands-free' && (
+                <p className="text-center text-sm text-gray-600 dark:text-gray-400">{voiceActive ? 'Speech detected' : 'Listening for speech...'}</p>
+              )}
+              {captureMode === 'push-to-talk' && !recordingOffline && (
+                <button
+                  onPointerDown={() => setTalking(true)}
+                  onPointerUp={() => setTalking(false)}
+                  onPointerLeave={() => isTalkingRef.current && setTalking(false)}
+                  onPointerCancel={() => setTalking(false)}
+                  aria-pressed={isTalking}
+                  className={`w-full py-4 text-lg font-semibold rounded-full shadow select-none touch-none transition-colors focus:outline-none focus:ring-4 focus:ring-indigo-300 ${isTalking ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200'}`}
+                >
+                  {isTalking ? 'Talking...' : 'Hold to talk (or hold Space)'}
+                </button>
+              )}
+            </div>
+          )}
+          {mode === 'conversation' ? (
+            <div className="mt-4">
+              <ConversationSetup
+                languages={conversationLanguages}
+                onLanguagesChange={setConversationLanguages}
+                nextSpeaker={nextSpeaker}
+                onNextSpeakerChange={setNextSpeaker}
+                disabled={isProcessing}
+              />
+            </div>
+          ) : (
+          <div className="mt-4 grid grid-cols-[auto_1fr] gap-3 items-center">
+            <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">From</span>
+            <SourceLanguageSelector
+              selectedLanguage={sourceLanguage}
+              onLanguageChange={setSourceLanguage}
+              disabled={isProcessing}
+            />
+            <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">To</span>
+            <LanguageSelector
+              selectedLanguages={targetLanguages}
+              onLanguagesChange={setTargetLanguages}
               disabled={isProcessing}
             />
           </div>
+          )}
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input type="checkbox" checked={autoSpeak} onChange={(e) => setAutoSpeak(e.target.checked)} className="h-4 w-4 accent-indigo-600" />
+              Read translations aloud automatically
+            </label>
+            <button
+              onClick={openCaptionWindow}
+              title="Open large captions for the audience in a new window, e.g. on a second screen"
+              className="px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+            >
+              Open caption window
+            </button>
+          </div>
+          {usageNotice && (
+            <div className={`mt-4 text-center p-3 rounded-lg ${usage?.status === 'blocked' ? 'text-red-500 bg-red-100 dark:bg-red-900/30' : 'text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30'}`}>{usageNotice}</div>
+          )}
+          {connectionNotice && <div className="mt-4 text-center text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/30 p-3 rounded-lg">{connectionNotice}</div>}
           {error && <div className="mt-4 text-center text-red-500 bg-red-100 dark:bg-red-900/30 p-3 rounded-lg">{error}</div>}
         </div>
 
+        {mode === 'conversation' ? (
+          <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="flex justify-between items-center mb-3">
+              <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Conversation</h2>
+              {isSpeaking && (
+                <IconButton onClick={speechQueue.stop} label="Stop speaking">
+                  <StopIcon />
+                </IconButton>
+              )}
+            </div>
+            <div className="min-h-[150px] max-h-[32rem] p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg overflow-y-auto text-gray-800 dark:text-gray-200">
+              <ConversationView languages={conversationLanguages} turns={conversationTurns} partialText={transcribedText} onSpeak={speak} />
+            </div>
+          </div>
+        ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-grow">
           {/* Transcription Card */}
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 flex flex-col">
-            <h2 className="text-xl font-bold mb-3 text-gray-700 dark:text-gray-300">Transcription</h2>
+            <div className="flex justify-between items-center mb-3">
+              <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Transcription</h2>
+              <div className="flex items-center gap-2">
+                {resolvedSource && (
+                  <span className="text-xs font-semibold px-3 py-1 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                    {resolvedSource.detected ? 'Detected' : 'Source'}: {findLanguage(resolvedSource.code).name}
+                  </span>
+                )}
+                {!isProcessing && !isEditingTranscript && (
+                  <IconButton onClick={() => setIsEditingTranscript(true)} label="Edit transcript">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1-4.464z" /></svg>
+                  </IconButton>
+                )}
+              </div>
+            </div>
             <div className="flex-grow min-h-[150px] p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg overflow-y-auto text-gray-800 dark:text-gray-200">
-              {transcribedText || <span className="text-gray-400 dark:text-gray-500">Your transcribed text will appear here...</span>}
+              {isEditingTranscript ? (
+                <TranscriptEditor
+                  text={transcribedText}
+                  segments={segments}
+                  speakerNames={speakerNames}
+                  onTranslate={retranslate}
+                  onCancel={() => setIsEditingTranscript(false)}
+                />
+              ) : hasSegments ? (
+                <SegmentList segments={segments} activeIndex={activeSegmentIndex} onSelect={handleSegmentSelect} highlights={missedSourceTerms} speakerNames={speakerNames} />
+              ) : transcribedText ? (
+                <HighlightedText text={transcribedText} terms={missedSourceTerms} title="Glossary term missing from the translation" />
+              ) : (
+                <span className="text-gray-400 dark:text-gray-500">Your transcribed text will appear here...</span>
+              )}
             </div>
           </div>
           {/* Translation Card */}
           <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 flex flex-col">
             <div className="flex justify-between items-center mb-3">
               <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Translation</h2>
-              {translatedText && !isProcessing && (
-                <IconButton onClick={() => copyToClipboard(translatedText)} label="Copy translation">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
-                </IconButton>
-              )}
+              <div className="flex items-center gap-1">
+                {transcribedText.trim() && !isProcessing && !isEditingTranscript && (
+                  <button
+                    onClick={() => retranslate(transcribedText, segments.map(({ translations: _previous, ...segment }) => segment))}
+                    className="px-3 py-1 mr-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600"
+                    title="Translate the transcript again into the selected languages"
+                  >
+                    Re-translate
+                  </button>
+                )}
+                {isSpeaking && (
+                  <IconButton onClick={speechQueue.stop} label="Stop speaking">
+                    <StopIcon />
+                  </IconButton>
+                )}
+                {(activeResult?.status === 'done' || activeResult?.status === 'skipped') && !isProcessing && (
+                  <>
+                    <IconButton onClick={() => speak(activeResult.text, activeTranslation)} label="Read translation aloud">
+                      <SpeakerIcon />
+                    </IconButton>
+                    <IconButton onClick={() => copyToClipboard(activeResult.text)} label="Copy translation">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                    </IconButton>
+                  </>
+                )}
+              </div>
             </div>
+            {Object.keys(translations).length > 1 && (
+              <TranslationTabs translations={translations} activeLanguage={activeTranslation} onSelect={setActiveTranslation} />
+            )}
             <div className="flex-grow min-h-[150px] p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg overflow-y-auto text-indigo-800 dark:text-indigo-300 font-medium">
-              {translatedText || <span className="text-gray-400 dark:text-gray-500 font-normal">Translated text will appear here...</span>}
+              {activeResult?.status === 'skipped' && (
+                <p className="mb-2 text-xs font-normal text-amber-700 dark:text-amber-300">
+                  The original is already in {findLanguage(activeTranslation).name}, so it was not translated.
+                </p>
+              )}
+              {activeResult?.status === 'done' && activeResult.notes && (
+                <p className="mb-2 text-xs font-normal text-gray-600 dark:text-gray-400">
+                  <strong>Translator's note:</strong> {activeResult.notes}
+                </p>
+              )}
+              {glossaryMisses.length > 0 && (
+                <div className="mb-2 text-xs font-normal text-amber-700 dark:text-amber-300">
+                  Glossary check: the approved rendering is missing for{' '}
+                  {glossaryMisses.map(term => `"${term.source}" → "${term.target}"`).join(', ')}.
+                </div>
+              )}
+              {activeResult?.status === 'error' ? (
+                <span className="text-red-500 font-normal">Translation into {findLanguage(activeTranslation).name} failed: {activeResult.error}</span>
+              ) : hasSegments && segments.some(s => s.translations?.[activeTranslation]) ? (
+                <SegmentList segments={segments} languageCode={activeTranslation} activeIndex={activeSegmentIndex} onSelect={handleSegmentSelect} speakerNames={speakerNames} />
+              ) : (
+                activeText || <span className="text-gray-400 dark:text-gray-500 font-normal">Translated text will appear here...</span>
+              )}
             </div>
           </div>
         </div>
+        )}
+
+        <BatchQueue jobs={batchJobs} onView={viewBatchResult} onRetry={retryBatchJob} onDelete={removeBatchJob} onClearFinished={clearFinishedBatchJobs} />
+
+        <CaptureQueue jobs={captureJobs} isOnline={isOnline} onRetry={retryCaptureJob} onDelete={removeCaptureJob} />
+
+        {provider.id !== 'mock' && <UsagePanel usage={usage} onRefresh={refreshUsage} onSaveBudget={saveBudget} />}
+
+        <StyleProfileManager languages={mode === 'conversation' ? conversationLanguages : targetLanguages} profiles={styleProfiles} onChange={handleStyleProfilesChange} />
+
+        <GlossaryManager glossaries={glossaries} onChange={handleGlossariesChange} />
 
         {/* History Section */}
-        {history.length > 0 && (
-          <div className="mt-6">
-            <h2 className="text-2xl font-bold mb-4 text-center text-gray-700 dark:text-gray-300">History</h2>
-            <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
-              {history.map(item => (
-                <div key={item.id} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
-                  <div className="flex justify-between items-start">
-                    <div>
-                      <p className="text-xs text-gray-500 dark:text-gray-400">{item.timestamp} - to {item.targetLanguage}</p>
-                      <p className="mt-2 text-gray-600 dark:text-gray-300"><strong>Original:</strong> {item.transcribedText}</p>
-                      <p className="mt-1 text-indigo-600 dark:text-indigo-400"><strong>Translated:</strong> {item.translatedText}</p>
-                    </div>
-                    <IconButton onClick={() => deleteHistoryItem(item.id)} label="Delete history item">
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                    </IconButton>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
+        <HistoryPanel refreshKey={historyVersion} onSpeak={speak} onOpen={openHistoryEntry} />
       </main>
     </div>
   );
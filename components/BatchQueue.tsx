@@ -0,0 +1,67 @@
+import React from 'react';
+import type { BatchJob, BatchJobStatus } from '../types';
+import { findLanguage } from '../utils/language';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  onView: (job: BatchJob) => void;
+  onRetry: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const buttonClasses = "px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  transcribing: 'Transcribing...',
+  translating: 'Translating...',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+  queued: 'text-gray-600 dark:text-gray-400',
+  transcribing: 'text-indigo-600 dark:text-indigo-400',
+  translating: 'text-indigo-600 dark:text-indigo-400',
+  done: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-500',
+};
+
+const isRunning = (job: BatchJob) => job.status === 'transcribing' || job.status === 'translating';
+
+// Files uploaded together, each transcribed, translated and saved to the history on its own.
+const BatchQueue: React.FC<BatchQueueProps> = ({ jobs, onView, onRetry, onDelete, onClearFinished }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => job.status === 'done').length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Batch ({finished} of {jobs.length} done)</h2>
+        {finished > 0 && <button onClick={onClearFinished} className={buttonClasses}>Clear finished</button>}
+      </div>
+      <ul className="space-y-3">
+        {jobs.map(job => (
+          <li key={job.id} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-800 dark:text-gray-200 truncate" title={job.fileName}>{job.fileName}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">To {job.targetLanguages.map(code => findLanguage(code).name).join(', ')}</p>
+              <p className={`text-sm ${STATUS_CLASSES[job.status]}`}>
+                {STATUS_LABELS[job.status]}{job.status === 'failed' && job.error ? `: ${job.error}` : ''}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {job.status === 'done' && <button onClick={() => onView(job)} className={buttonClasses}>View</button>}
+              {job.status === 'failed' && <button onClick={() => onRetry(job.id)} className={buttonClasses}>Retry</button>}
+              <button onClick={() => onDelete(job.id)} disabled={isRunning(job)} className={buttonClasses}>Remove</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { CaptionState, EMPTY_CAPTIONS, subscribeToCaptions } from '../services/captionChannel';
+import { CaptionContrast, CaptionSettings, loadCaptionSettings, saveCaptionSettings } from '../services/captionSettingsStore';
+import { findLanguage } from '../utils/language';
+
+const CONTRASTS: Record<CaptionContrast, { label: string; classes: string }> = {
+  dark: { label: 'White on black', classes: 'bg-black text-white' },
+  light: { label: 'Black on white', classes: 'bg-white text-black' },
+  yellow: { label: 'Yellow on black', classes: 'bg-black text-yellow-300' },
+};
+
+const LINE_HEIGHT = 1.3;
+const MIN_FONT_SIZE = 24;
+const MAX_FONT_SIZE = 120;
+const MAX_LINES = 8;
+
+const controlClasses = "px-2 py-1 text-sm text-gray-900 bg-white border border-gray-300 rounded";
+
+// Shows the last `lines` lines of `text`; older lines scroll out of view at the top.
+const CaptionLines: React.FC<{ text: string; lines: number; fontSize: number; className?: string }> = ({ text, lines, fontSize, className = '' }) => (
+  <div
+    className={`flex flex-col justify-end overflow-hidden ${className}`}
+    style={{ fontSize, lineHeight: LINE_HEIGHT, height: `${lines * LINE_HEIGHT}em` }}
+  >
+    <p className="whitespace-pre-line">{text}</p>
+  </div>
+);
+
+// The audience view, opened in its own window from the main one. It only
+// listens: captions arrive from the main window as they are transcribed and
+// translated.
+const CaptionWindow: React.FC = () => {
+  const [captions, setCaptions] = useState<CaptionState>(EMPTY_CAPTIONS);
+  const [hasConnected, setHasConnected] = useState(false);
+  const [settings, setSettings] = useState<CaptionSettings>(loadCaptionSettings);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => {
+    document.title = 'EchoTranslate captions';
+    return subscribeToCaptions(state => {
+      setCaptions(state);
+      setHasConnected(true);
+    });
+  }, []);
+
+  const update = (patch: Partial<CaptionSettings>) => {
+    const updated = { ...settings, ...patch };
+    setSettings(updated);
+    saveCaptionSettings(updated);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(e => console.warn('Full screen is not available', e));
+  };
+
+  const languages = Object.keys(captions.translations);
+  const language = languages.includes(settings.language) ? settings.language : languages[0];
+  const translation = language ? captions.translations[language] : '';
+
+  return (
+    <div className={`min-h-screen flex flex-col font-sans ${CONTRASTS[settings.contrast].classes}`}>
+      <div className="flex flex-wrap justify-end items-center gap-2 p-3 opacity-30 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {showSettings && (
+          <>
+            <label className="flex items-center gap-1 text-sm">
+              Size
+              <input
+                type="range"
+                min={MIN_FONT_SIZE}
+                max={MAX_FONT_SIZE}
+                value={settings.fontSize}
+                onChange={(e) => update({ fontSize: Number(e.target.value) })}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm">
+              Lines
+              <select value={settings.lines} onChange={(e) => update({ lines: Number(e.target.value) })} className={controlClasses}>
+                {Array.from({ length: MAX_LINES }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </label>
+            <select value={settings.contrast} onChange={(e) => update({ contrast: e.target.value as CaptionContrast })} aria-label="Contrast" className={controlClasses}>
+              {Object.entries(CONTRASTS).map(([value, { label }]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            {languages.length > 1 && (
+              <select value={language} onChange={(e) => update({ language: e.target.value })} aria-label="Caption language" className={controlClasses}>
+                {languages.map(code => <option key={code} value={code}>{findLanguage(code).name}</option>)}
+              </select>
+            )}
+            <label className="flex items-center gap-1 text-sm">
+              <input type="checkbox" checked={settings.showOriginal} onChange={(e) => update({ showOriginal: e.target.checked })} />
+              Original
+            </label>
+          </>
+        )}
+        <button onClick={() => setShowSettings(!showSettings)} className={controlClasses}>{showSettings ? 'Done' : 'Settings'}</button>
+        <button onClick={toggleFullscreen} className={controlClasses}>Full screen</button>
+      </div>
+      <main className="flex-grow flex flex-col justify-end gap-6 px-8 pb-10 sm:px-16">
+        {!hasConnected ? (
+          <p className="text-center text-xl opacity-70">Waiting for captions. Keep the EchoTranslate window that opened this one running.</p>
+        ) : (
+          <>
+            {settings.showOriginal && captions.transcript && (
+              <CaptionLines text={captions.transcript} lines={settings.lines} fontSize={Math.round(settings.fontSize * 0.6)} className="opacity-70" />
+            )}
+            <CaptionLines text={translation} lines={settings.lines} fontSize={settings.fontSize} className="font-semibold" />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CaptionWindow;
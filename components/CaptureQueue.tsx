@@ -0,0 +1,52 @@
+import React from 'react';
+import type { CaptureJob } from '../types';
+import { findLanguage } from '../utils/language';
+import { formatTime } from '../utils/time';
+
+interface CaptureQueueProps {
+  jobs: CaptureJob[];
+  isOnline: boolean;
+  onRetry: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const buttonClasses = "px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const statusText = (job: CaptureJob, isOnline: boolean): string => {
+  if (job.status === 'processing') return 'Transcribing and translating...';
+  if (job.status === 'failed') return `Failed: ${job.error}`;
+  if (!isOnline) return 'Waiting for a connection';
+  // A pending job with an error could not reach the service last time.
+  return job.error ? `Waiting to retry: ${job.error}` : 'Waiting to be processed';
+};
+
+// Recordings made offline that have not made it into the history yet.
+const CaptureQueue: React.FC<CaptureQueueProps> = ({ jobs, isOnline, onRetry, onDelete }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <h2 className="text-xl font-bold mb-3 text-gray-700 dark:text-gray-300">Saved recordings</h2>
+      <ul className="space-y-3">
+        {jobs.map(job => (
+          <li key={job.id} className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-800 dark:text-gray-200">
+                {new Date(job.createdAt).toLocaleString()} · {formatTime(job.durationMs / 1000)} · to {job.targetLanguages.map(code => findLanguage(code).name).join(', ')}
+              </p>
+              <p className={`text-sm ${job.status === 'failed' ? 'text-red-500' : 'text-gray-600 dark:text-gray-400'}`}>{statusText(job, isOnline)}</p>
+            </div>
+            <div className="flex gap-2">
+              {job.status !== 'processing' && (job.status === 'failed' || job.error) && (
+                <button onClick={() => onRetry(job.id)} disabled={!isOnline} className={buttonClasses}>Retry</button>
+              )}
+              <button onClick={() => onDelete(job.id)} disabled={job.status === 'processing'} className={buttonClasses}>Delete</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CaptureQueue;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { AUTO_DETECT, TARGET_LANGUAGES } from '../constants';
+import type { ConversationSpeaker, Language } from '../types';
+import { findLanguage } from '../utils/language';
+
+interface ConversationSetupProps {
+  languages: [string, string];
+  onLanguagesChange: (languages: [string, string]) => void;
+  // Who the next turn belongs to, or AUTO_DETECT to decide from its language.
+  nextSpeaker: ConversationSpeaker | typeof AUTO_DETECT;
+  onNextSpeakerChange: (speaker: ConversationSpeaker | typeof AUTO_DETECT) => void;
+  disabled?: boolean;
+}
+
+const selectClasses = "block w-full px-4 py-3 pr-8 text-base text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200";
+
+const ConversationSetup: React.FC<ConversationSetupProps> = ({ languages, onLanguagesChange, nextSpeaker, onNextSpeakerChange, disabled = false }) => {
+  // Picking the other side's language swaps the pair rather than leaving both speakers on one language.
+  const setLanguage = (index: 0 | 1, code: string) => {
+    const other = languages[1 - index];
+    if (code === other) {
+      onLanguagesChange([languages[1], languages[0]]);
+    } else {
+      onLanguagesChange(index === 0 ? [code, other] : [other, code]);
+    }
+  };
+
+  const languageSelect = (index: 0 | 1, label: string) => (
+    <div className="relative flex-1">
+      <select
+        value={languages[index]}
+        onChange={(e) => setLanguage(index, e.target.value)}
+        disabled={disabled}
+        aria-label={label}
+        className={selectClasses}
+      >
+        {TARGET_LANGUAGES.map((lang: Language) => (
+          <option key={lang.code} value={lang.code}>
+            {lang.name}
+          </option>
+        ))}
+      </select>
+      <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300">
+        <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+          <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+        </svg>
+      </div>
+    </div>
+  );
+
+  const speakerOptions: [ConversationSpeaker | typeof AUTO_DETECT, string][] = [
+    [AUTO_DETECT, 'Detect'],
+    ['a', findLanguage(languages[0]).name],
+    ['b', findLanguage(languages[1]).name],
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {languageSelect(0, "Speaker A's language")}
+        <button
+          onClick={() => onLanguagesChange([languages[1], languages[0]])}
+          disabled={disabled}
+          aria-label="Swap languages"
+          className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+        </button>
+        {languageSelect(1, "Speaker B's language")}
+      </div>
+      {/* Can be changed mid-conversation, e.g. when detection keeps picking the wrong side. */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold text-gray-600 dark:text-gray-400">Next speaker</span>
+        {speakerOptions.map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => onNextSpeakerChange(value)}
+            aria-pressed={nextSpeaker === value}
+            className={`px-3 py-1 rounded-full font-semibold transition-colors ${nextSpeaker === value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSetup;
@@ -0,0 +1,62 @@
+import React from 'react';
+import type { LiveConversationTurn } from '../types';
+import { findLanguage } from '../utils/language';
+import { otherSpeaker, speakerLanguage } from '../services/conversation';
+import SpeakerIcon from './SpeakerIcon';
+
+interface ConversationViewProps {
+  languages: [string, string];
+  turns: LiveConversationTurn[];
+  // What the current speaker has said so far in a turn that is not complete yet.
+  partialText: string;
+  onSpeak: (text: string, languageCode: string) => void;
+}
+
+// Chat-style timeline: speaker A on the left, speaker B on the right, each
+// turn showing the translation for the listener above the original.
+const ConversationView: React.FC<ConversationViewProps> = ({ languages, turns, partialText, onSpeak }) => {
+  if (turns.length === 0 && !partialText) {
+    return <p className="text-gray-400 dark:text-gray-500">Start recording and take turns speaking. Each turn is translated for the other person.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {turns.map(turn => {
+        const source = turn.speaker ? findLanguage(speakerLanguage(languages, turn.speaker)) : null;
+        const target = turn.speaker ? findLanguage(speakerLanguage(languages, otherSpeaker(turn.speaker))) : null;
+        const alignment = turn.speaker === 'b' ? 'ml-auto bg-purple-50 dark:bg-purple-900/30' : 'mr-auto bg-indigo-50 dark:bg-indigo-900/30';
+        return (
+          <li key={turn.id} className={`max-w-[85%] p-3 rounded-2xl ${alignment}`}>
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+              {source && target ? `${source.name} → ${target.name}` : 'Identifying speaker...'}
+            </p>
+            {turn.translation.status === 'error' ? (
+              <p className="mt-1 text-red-500">Translation failed: {turn.translation.error}</p>
+            ) : (
+              <p className="mt-1 flex items-start gap-2 font-medium text-indigo-800 dark:text-indigo-300">
+                <span className="flex-grow">{turn.translation.text || 'Translating...'}</span>
+                {turn.translation.status === 'done' && target && (
+                  <button
+                    onClick={() => onSpeak(turn.translation.text, target.code)}
+                    aria-label={`Read ${target.name} translation aloud`}
+                    className="p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  >
+                    <SpeakerIcon className="h-4 w-4" />
+                  </button>
+                )}
+              </p>
+            )}
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{turn.text}</p>
+          </li>
+        );
+      })}
+      {partialText && (
+        <li className="max-w-[85%] mx-auto p-3 rounded-2xl bg-gray-100 dark:bg-gray-700/50 text-sm text-gray-500 dark:text-gray-400 italic">
+          {partialText}
+        </li>
+      )}
+    </ol>
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import type { Glossary, GlossaryTerm } from '../types';
+import { AUTO_DETECT, TARGET_LANGUAGE_CHOICES, TARGET_LANGUAGES } from '../constants';
+import { findLanguage } from '../utils/language';
+import { downloadFile } from '../utils/download';
+import { exportGlossaries, exportGlossaryTermsCsv, isDoNotTranslate, mergeTerms, parseGlossaryFile } from '../utils/glossary';
+import IconButton from './IconButton';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  onChange: (glossaries: Glossary[]) => void;
+}
+
+const inputClasses = "px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const buttonClasses = "px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const TrashIcon = () => (<svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>);
+
+const languageLabel = (code: string) => code === AUTO_DETECT ? 'any language' : findLanguage(code).name;
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossaries, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newSource, setNewSource] = useState(AUTO_DETECT);
+  const [newTarget, setNewTarget] = useState('es');
+  const [termSource, setTermSource] = useState('');
+  const [termTarget, setTermTarget] = useState('');
+  const [keepAsIs, setKeepAsIs] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const selected = glossaries.find(g => g.id === selectedId) ?? null;
+
+  const updateGlossary = (id: string, update: (glossary: Glossary) => Glossary) => {
+    onChange(glossaries.map(g => g.id === id ? update(g) : g));
+  };
+
+  const createGlossary = () => {
+    const glossary: Glossary = {
+      id: crypto.randomUUID(),
+      name: newName.trim() || `${languageLabel(newSource)} → ${findLanguage(newTarget).name}`,
+      sourceLanguage: newSource,
+      targetLanguage: newTarget,
+      terms: [],
+    };
+    onChange([...glossaries, glossary]);
+    setSelectedId(glossary.id);
+    setNewName('');
+  };
+
+  const deleteGlossary = (id: string) => {
+    onChange(glossaries.filter(g => g.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const addTerm = () => {
+    if (!selected || !termSource.trim()) return;
+    const source = termSource.trim();
+    const term: GlossaryTerm = { source, target: keepAsIs || !termTarget.trim() ? source : termTarget.trim() };
+    updateGlossary(selected.id, g => ({ ...g, terms: mergeTerms(g.terms, [term]) }));
+    setTermSource('');
+    setTermTarget('');
+  };
+
+  const removeTerm = (source: string) => {
+    if (!selected) return;
+    updateGlossary(selected.id, g => ({ ...g, terms: g.terms.filter(t => t.source !== source) }));
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target) event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossaryFile(file.name, await file.text());
+      if (imported.kind === 'glossaries') {
+        onChange([...glossaries, ...imported.glossaries]);
+        setMessage({ text: `Imported ${imported.glossaries.length} glossar${imported.glossaries.length === 1 ? 'y' : 'ies'}.`, isError: false });
+      } else {
+        if (!selected) throw new Error('Select a glossary to import CSV terms into.');
+        updateGlossary(selected.id, g => ({ ...g, terms: mergeTerms(g.terms, imported.terms) }));
+        setMessage({ text: `Imported ${imported.terms.length} term${imported.terms.length === 1 ? '' : 's'} into "${selected.name}".`, isError: false });
+      }
+    } catch (e) {
+      console.error('Failed to import glossary', e);
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setMessage({ text: `Import failed: ${errorMessage}`, isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex w-full justify-between items-center text-left" aria-expanded={isOpen}>
+        <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Glossaries{glossaries.length > 0 ? ` (${glossaries.length})` : ''}</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2 items-center">
+            <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New glossary name" aria-label="New glossary name" className={`${inputClasses} flex-grow min-w-[10rem]`} />
+            <select value={newSource} onChange={(e) => setNewSource(e.target.value)} aria-label="Glossary source language" className={inputClasses}>
+              <option value={AUTO_DETECT}>Any source language</option>
+              {TARGET_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+            </select>
+            <span className="text-gray-500">→</span>
+            <select value={newTarget} onChange={(e) => setNewTarget(e.target.value)} aria-label="Glossary target language" className={inputClasses}>
+              {TARGET_LANGUAGE_CHOICES.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+            </select>
+            <button onClick={createGlossary} className={buttonClasses}>Create</button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".json,.csv" style={{ display: 'none' }} />
+            <button onClick={() => importInputRef.current?.click()} className={buttonClasses}>Import</button>
+            <button
+              onClick={() => downloadFile(exportGlossaries(glossaries), 'echotranslate-glossaries.json', 'application/json')}
+              disabled={glossaries.length === 0}
+              className={buttonClasses}
+            >
+              Export all (JSON)
+            </button>
+          </div>
+          {message && <p className={`text-sm ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>}
+
+          {glossaries.length > 0 && (
+            <ul className="space-y-2">
+              {glossaries.map(glossary => (
+                <li key={glossary.id} className={`flex justify-between items-center gap-2 px-3 py-2 rounded-lg border ${glossary.id === selectedId ? 'border-indigo-500' : 'border-gray-200 dark:border-gray-700'}`}>
+                  <button onClick={() => setSelectedId(glossary.id === selectedId ? null : glossary.id)} className="flex-grow text-left">
+                    <span className="font-semibold">{glossary.name}</span>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {languageLabel(glossary.sourceLanguage)} → {findLanguage(glossary.targetLanguage).name} · {glossary.terms.length} term{glossary.terms.length === 1 ? '' : 's'}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => downloadFile(exportGlossaryTermsCsv(glossary), `${glossary.name}.csv`, 'text/csv')}
+                    className={buttonClasses}
+                  >
+                    CSV
+                  </button>
+                  <IconButton onClick={() => deleteGlossary(glossary.id)} label="Delete glossary"><TrashIcon /></IconButton>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 items-center">
+                <input value={termSource} onChange={(e) => setTermSource(e.target.value)} placeholder="Source term" aria-label="Source term" className={`${inputClasses} flex-grow min-w-[8rem]`} />
+                <input
+                  value={keepAsIs ? termSource : termTarget}
+                  onChange={(e) => setTermTarget(e.target.value)}
+                  disabled={keepAsIs}
+                  placeholder="Approved translation"
+                  aria-label="Approved translation"
+                  className={`${inputClasses} flex-grow min-w-[8rem] disabled:opacity-50`}
+                />
+                <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+                  <input type="checkbox" checked={keepAsIs} onChange={(e) => setKeepAsIs(e.target.checked)} className="accent-indigo-600" />
+                  Do not translate
+                </label>
+                <button onClick={addTerm} disabled={!termSource.trim()} className={buttonClasses}>Add term</button>
+              </div>
+              {selected.terms.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No terms yet. Add terms above or import a CSV with "source,target" rows.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-64 overflow-y-auto">
+                  {selected.terms.map(term => (
+                    <li key={term.source} className="flex justify-between items-center py-1 text-sm">
+                      <span>
+                        <span className="font-semibold">{term.source}</span>
+                        {' → '}
+                        {isDoNotTranslate(term) ? <em className="text-gray-500 dark:text-gray-400">keep as is</em> : term.target}
+                      </span>
+                      <IconButton onClick={() => removeTerm(term.source)} label={`Remove ${term.source}`}><TrashIcon /></IconButton>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { splitByTerms } from '../utils/glossary';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+  title?: string;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms, title }) => {
+  if (terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitByTerms(text, terms).map((part, i) => part.highlighted ? (
+        <mark key={i} title={title} className="bg-amber-200 dark:bg-amber-700/60 text-inherit rounded px-0.5">{part.text}</mark>
+      ) : (
+        <React.Fragment key={i}>{part.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { TARGET_LANGUAGE_CHOICES } from '../constants';
+import { countHistoryEntries, deleteHistoryEntry, getHistoryEntries, importHistoryEntries, queryHistory } from '../services/historyStore';
+import { findLanguage } from '../utils/language';
+import { exportHistory, HISTORY_EXPORT_FORMATS, HistoryExportFormat, parseHistoryFile } from '../utils/historyExchange';
+import { downloadFile } from '../utils/download';
+import { getEntryTranslations } from '../utils/history';
+import { describeStyle } from '../utils/translationStyle';
+import { otherSpeaker, speakerLanguage } from '../services/conversation';
+import IconButton from './IconButton';
+import SpeakerIcon from './SpeakerIcon';
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever it saves a new entry.
+  refreshKey: number;
+  onSpeak: (text: string, languageCode: string) => void;
+  // Shows a translation entry in the main cards to edit and translate it again,
+  // or a conversation in the conversation view to carry it on.
+  onOpen: (entry: HistoryEntry) => void;
+}
+
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+const inputClasses = "px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const pageButtonClasses = "px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, onSpeak, onOpen }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [storedCount, setStoredCount] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [language, setLanguage] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [version, setVersion] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<HistoryExportFormat>('json');
+  const [transferMessage, setTransferMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [search, language, fromDate, toDate]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      queryHistory({
+        text: search,
+        targetLanguage: language || undefined,
+        from: fromDate ? startOfDay(fromDate) : undefined,
+        to: toDate ? endOfDay(toDate) : undefined,
+        offset: page * PAGE_SIZE,
+        limit: PAGE_SIZE,
+      }),
+      countHistoryEntries(),
+    ])
+      .then(([result, count]) => {
+        if (cancelled) return;
+        // Deleting the last entry on a page moves back to the previous one.
+        if (result.entries.length === 0 && page > 0) {
+          setPage(page - 1);
+          return;
+        }
+        setEntries(result.entries);
+        setTotal(result.total);
+        setStoredCount(count);
+      })
+      .catch(e => console.error('Failed to load history', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [search, language, fromDate, toDate, page, refreshKey, version]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+      setVersion(v => v + 1);
+    } catch (e) {
+      console.error('Failed to delete history entry', e);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      const toExport = await getHistoryEntries(selectedIds.size > 0 ? [...selectedIds] : undefined);
+      const { extension, mimeType } = HISTORY_EXPORT_FORMATS[exportFormat];
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(exportHistory(toExport, exportFormat), `echotranslate-history-${date}.${extension}`, mimeType);
+    } catch (e) {
+      console.error('Failed to export history', e);
+      setTransferMessage({ text: 'Export failed. Please try again.', isError: true });
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target) event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseHistoryFile(file.name, await file.text());
+      const { added, skipped } = await importHistoryEntries(imported);
+      setTransferMessage({
+        text: `Imported ${added} ${added === 1 ? 'entry' : 'entries'}${skipped > 0 ? `, skipped ${skipped} duplicate${skipped === 1 ? '' : 's'}` : ''}.`,
+        isError: false,
+      });
+      setVersion(v => v + 1);
+    } catch (e) {
+      console.error('Failed to import history', e);
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setTransferMessage({ text: `Import failed: ${errorMessage}`, isError: true });
+    }
+  };
+
+  const importControls = (
+    <>
+      <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".json,.csv,.tmx" style={{ display: 'none' }} />
+      <button onClick={() => importInputRef.current?.click()} className={pageButtonClasses}>Import history</button>
+    </>
+  );
+
+  const transferStatus = transferMessage && (
+    <p className={`mt-2 text-sm text-center ${transferMessage.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{transferMessage.text}</p>
+  );
+
+  if (storedCount === 0) {
+    return (
+      <div className="mt-6 text-center">
+        {importControls}
+        {transferStatus}
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-2xl font-bold mb-4 text-center text-gray-700 dark:text-gray-300">History</h2>
+      <div className="flex flex-wrap gap-3 mb-4">
+        <input
+          type="search"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search original and translated text..."
+          aria-label="Search history"
+          className={`${inputClasses} flex-grow min-w-[12rem]`}
+        />
+        <select value={language} onChange={(e) => setLanguage(e.target.value)} aria-label="Filter by target language" className={inputClasses}>
+          <option value="">All languages</option>
+          {TARGET_LANGUAGE_CHOICES.map(lang => (
+            <option key={lang.code} value={lang.code}>{lang.name}</option>
+          ))}
+        </select>
+        <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From date" className={inputClasses} />
+        <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" className={inputClasses} />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as HistoryExportFormat)} aria-label="Export format" className={inputClasses}>
+          {Object.entries(HISTORY_EXPORT_FORMATS).map(([format, { label }]) => (
+            <option key={format} value={format}>{label}</option>
+          ))}
+        </select>
+        <button onClick={handleExport} className={pageButtonClasses}>
+          {selectedIds.size > 0 ? `Export ${selectedIds.size} selected` : 'Export all'}
+        </button>
+        {selectedIds.size > 0 && (
+          <button onClick={() => setSelectedIds(new Set())} className={pageButtonClasses}>Clear selection</button>
+        )}
+        {importControls}
+      </div>
+      {transferStatus}
+      {entries.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400">No history entries match these filters.</p>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
+          {entries.map(item => (
+            <div key={item.id} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+              <div className="flex justify-between items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  aria-label="Select history item"
+                  className="mt-1 h-4 w-4 accent-indigo-600"
+                />
+                <div className="flex-grow">
+                  {item.conversation ? (
+                    <>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(item.createdAt).toLocaleString()} - conversation between {item.conversation.languages.map(code => findLanguage(code).name).join(' and ')}
+                        {item.updatedAt && ` - carried on ${new Date(item.updatedAt).toLocaleString()}`}
+                      </p>
+                      {item.conversation.turns.map((turn, i) => {
+                        const target = speakerLanguage(item.conversation!.languages, otherSpeaker(turn.speaker));
+                        return (
+                          <div key={i} className="mt-2">
+                            <p className="text-gray-600 dark:text-gray-300"><strong>{findLanguage(speakerLanguage(item.conversation!.languages, turn.speaker)).name}:</strong> {turn.text}</p>
+                            <p className="text-indigo-600 dark:text-indigo-400">
+                              {turn.translatedText || <em className="text-gray-400 dark:text-gray-500">Not translated</em>}
+                              {turn.translatedText && (
+                                <button
+                                  onClick={() => onSpeak(turn.translatedText, target)}
+                                  aria-label={`Read ${findLanguage(target).name} translation aloud`}
+                                  className="ml-2 align-middle p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+                                >
+                                  <SpeakerIcon className="h-4 w-4" />
+                                </button>
+                              )}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </>
+                  ) : (
+                  <>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(item.createdAt).toLocaleString()} - {item.sourceLanguage ? `from ${findLanguage(item.sourceLanguage).name} ` : ''}to {Object.keys(getEntryTranslations(item)).map(code => item.styles?.[code] ? `${findLanguage(code).name} (${describeStyle(item.styles[code])})` : findLanguage(code).name).join(', ')}
+                    {item.updatedAt && ` - edited ${new Date(item.updatedAt).toLocaleString()}`}
+                  </p>
+                  <p className="mt-2 whitespace-pre-line text-gray-600 dark:text-gray-300"><strong>Original:</strong> {item.transcribedText}</p>
+                  {Object.entries(getEntryTranslations(item)).map(([code, text]) => (
+                    <p key={code} className="mt-1 whitespace-pre-line text-indigo-600 dark:text-indigo-400">
+                      <strong>{findLanguage(code).name}:</strong> {text}
+                      <button
+                        onClick={() => onSpeak(text, code)}
+                        aria-label={`Read ${findLanguage(code).name} translation aloud`}
+                        className="ml-2 align-middle p-1 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+                      >
+                        <SpeakerIcon className="h-4 w-4" />
+                      </button>
+                    </p>
+                  ))}
+                  </>
+                  )}
+                  {item.revisions && item.revisions.length > 0 && (
+                    <details className="mt-2 text-sm">
+                      <summary className="cursor-pointer text-gray-500 dark:text-gray-400">Earlier versions ({item.revisions.length})</summary>
+                      <ol className="mt-1 space-y-2">
+                        {[...item.revisions].reverse().map(revision => (
+                          <li key={revision.savedAt} className="pl-3 border-l-2 border-gray-200 dark:border-gray-700">
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(revision.savedAt).toLocaleString()}</p>
+                            {revision.conversation ? revision.conversation.turns.map((turn, i) => (
+                              <p key={i} className="text-gray-600 dark:text-gray-300">
+                                <strong>{findLanguage(speakerLanguage(revision.conversation!.languages, turn.speaker)).name}:</strong> {turn.text}
+                                {turn.translatedText && <span className="text-indigo-600 dark:text-indigo-400"> - {turn.translatedText}</span>}
+                              </p>
+                            )) : (
+                              <>
+                                <p className="whitespace-pre-line text-gray-600 dark:text-gray-300"><strong>Original:</strong> {revision.transcribedText}</p>
+                                <p className="whitespace-pre-line text-indigo-600 dark:text-indigo-400"><strong>{findLanguage(revision.targetLanguage).name}:</strong> {revision.translatedText}</p>
+                              </>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  )}
+                </div>
+                <IconButton onClick={() => onOpen(item)} label={item.conversation ? 'Open to carry on the conversation' : 'Open to edit and translate again'}>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1-4.464z" /></svg>
+                </IconButton>
+                <IconButton onClick={() => handleDelete(item.id)} label="Delete history item">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                </IconButton>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {total > PAGE_SIZE && (
+        <div className="flex justify-center items-center gap-4 mt-4">
+          <button onClick={() => setPage(p => p - 1)} disabled={page === 0} className={pageButtonClasses}>Previous</button>
+          <span className="text-sm text-gray-600 dark:text-gray-400">Page {page + 1} of {pageCount} ({total} entries)</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount} className={pageButtonClasses}>Next</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
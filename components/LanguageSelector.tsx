@@ -1,35 +1,70 @@
-
 import React from 'react';
-import { TARGET_LANGUAGES } from '../constants';
+import { TARGET_LANGUAGE_CHOICES } from '../constants';
 import type { Language } from '../types';
+import { findLanguage } from '../utils/language';
 
 interface LanguageSelectorProps {
-  selectedLanguage: string;
-  onLanguageChange: (languageCode: string) => void;
+  selectedLanguages: string[];
+  onLanguagesChange: (languageCodes: string[]) => void;
   disabled?: boolean;
 }
 
-const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, onLanguageChange, disabled = false }) => {
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguages, onLanguagesChange, disabled = false }) => {
+  // Regional variants are listed right after their language.
+  const available = TARGET_LANGUAGE_CHOICES.filter(lang => !selectedLanguages.includes(lang.code));
+
+  const addLanguage = (code: string) => {
+    if (code && !selectedLanguages.includes(code)) {
+      onLanguagesChange([...selectedLanguages, code]);
+    }
+  };
+
+  // At least one target language always stays selected.
+  const removeLanguage = (code: string) => {
+    if (selectedLanguages.length > 1) {
+      onLanguagesChange(selectedLanguages.filter(c => c !== code));
+    }
+  };
+
   return (
-    <div className="relative w-full">
-      <select
-        id="language-select"
-        value={selectedLanguage}
-        onChange={(e) => onLanguageChange(e.target.value)}
-        disabled={disabled}
-        className="block w-full px-4 py-3 pr-8 text-base text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-      >
-        {TARGET_LANGUAGES.map((lang: Language) => (
-          <option key={lang.code} value={lang.code}>
-            {lang.name}
-          </option>
-        ))}
-      </select>
-      <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300">
-        <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
-          <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
-        </svg>
-      </div>
+    <div className="flex flex-wrap items-center gap-2">
+      {selectedLanguages.map(code => (
+        <span key={code} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 text-sm font-semibold rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-200">
+          {findLanguage(code).name}
+          <button
+            onClick={() => removeLanguage(code)}
+            disabled={disabled || selectedLanguages.length === 1}
+            aria-label={`Remove ${findLanguage(code).name}`}
+            className="p-1 rounded-full hover:bg-indigo-200 dark:hover:bg-indigo-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <div className="relative flex-grow min-w-[10rem]">
+          <select
+            id="language-select"
+            value=""
+            onChange={(e) => addLanguage(e.target.value)}
+            disabled={disabled}
+            aria-label="Add target language"
+            className="block w-full px-4 py-3 pr-8 text-base text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            <option value="" disabled>Add target language...</option>
+            {available.map((lang: Language) => (
+              <option key={lang.code} value={lang.code}>
+                {lang.name}
+              </option>
+            ))}
+          </select>
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300">
+            <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+              <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+            </svg>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
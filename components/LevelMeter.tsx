@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import type { InputLevel, LevelFeed } from '../services/microphoneCapture';
+
+interface LevelMeterProps {
+  feed: LevelFeed;
+}
+
+// The bar spans -60 dBFS (empty) to 0 dBFS (full).
+const FLOOR_DB = -60;
+
+const toPercent = (value: number) => {
+  if (value <= 0) return 0;
+  const db = 20 * Math.log10(value);
+  return Math.max(0, Math.min(100, ((db - FLOOR_DB) / -FLOOR_DB) * 100));
+};
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ feed }) => {
+  const [level, setLevel] = useState<InputLevel | null>(null);
+  useEffect(() => feed.subscribe(setLevel), [feed]);
+  if (!level) return null;
+  const barColor = level.clipping ? 'bg-red-500' : level.peak > 0.7 ? 'bg-amber-500' : 'bg-green-500';
+  return (
+    <div className="space-y-1">
+      <div
+        role="meter"
+        aria-label="Microphone input level"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(toPercent(level.rms))}
+        className="relative h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden"
+      >
+        <div className={`h-full ${barColor} transition-[width] duration-75`} style={{ width: `${toPercent(level.rms)}%` }} />
+        <div className="absolute top-0 h-full w-0.5 bg-gray-500 dark:bg-gray-300" style={{ left: `${toPercent(level.peak)}%` }} />
+      </div>
+      {level.clipping && (
+        <p className="text-xs font-semibold text-red-600 dark:text-red-400">
+          Input is clipping. Move away from the microphone or lower its input volume.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
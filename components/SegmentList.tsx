@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/time';
+import { speakerName } from '../utils/speakers';
+import HighlightedText from './HighlightedText';
+
+interface SegmentListProps {
+  segments: TranscriptSegment[];
+  // Shows the translation into this language instead of the original text.
+  languageCode?: string;
+  activeIndex: number;
+  onSelect: (segment: TranscriptSegment) => void;
+  highlights?: string[];
+  // Names for diarized speakers, keyed by speaker id.
+  speakerNames?: Record<string, string>;
+}
+
+const SegmentList: React.FC<SegmentListProps> = ({ segments, languageCode, activeIndex, onSelect, highlights = [], speakerNames }) => {
+  const activeRef = useRef<HTMLButtonElement | null>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  return (
+    <ol className="space-y-1">
+      {segments.map((segment, i) => {
+        const isActive = i === activeIndex;
+        const text = languageCode ? segment.translations?.[languageCode] : segment.text;
+        // The speaker is named once at the start of each of their turns.
+        const startsTurn = segment.speaker && segment.speaker !== segments[i - 1]?.speaker;
+        return (
+          <li key={`${segment.start}-${i}`}>
+            {startsTurn && (
+              <p className={`px-2 text-xs font-semibold text-gray-500 dark:text-gray-400 ${i > 0 ? 'mt-2' : ''}`}>{speakerName(segment.speaker!, speakerNames)}</p>
+            )}
+            <button
+              ref={isActive ? activeRef : undefined}
+              onClick={() => onSelect(segment)}
+              className={`flex w-full gap-3 text-left px-2 py-1 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${isActive ? 'bg-indigo-100 dark:bg-indigo-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            >
+              <span className="shrink-0 pt-0.5 text-xs font-mono text-gray-500 dark:text-gray-400">{formatTime(segment.start)}</span>
+              <span>{text !== undefined ? <HighlightedText text={text} terms={highlights} /> : <span className="text-gray-400 dark:text-gray-500">…</span>}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default SegmentList;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AUTO_DETECT, TARGET_LANGUAGES } from '../constants';
+import type { Language } from '../types';
+
+interface SourceLanguageSelectorProps {
+  selectedLanguage: string;
+  onLanguageChange: (languageCode: string) => void;
+  disabled?: boolean;
+}
+
+const SourceLanguageSelector: React.FC<SourceLanguageSelectorProps> = ({ selectedLanguage, onLanguageChange, disabled = false }) => {
+  return (
+    <div className="relative w-full">
+      <select
+        id="source-language-select"
+        value={selectedLanguage}
+        onChange={(e) => onLanguageChange(e.target.value)}
+        disabled={disabled}
+        aria-label="Source language"
+        className="block w-full px-4 py-3 pr-8 text-base text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+      >
+        <option value={AUTO_DETECT}>Auto-detect</option>
+        {TARGET_LANGUAGES.map((lang: Language) => (
+          <option key={lang.code} value={lang.code}>
+            {lang.name}
+          </option>
+        ))}
+      </select>
+      <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-700 dark:text-gray-300">
+        <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+          <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default SourceLanguageSelector;
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { speakerName } from '../utils/speakers';
+
+interface SpeakerNamesProps {
+  speakerIds: string[];
+  names: Record<string, string>;
+  onChange: (names: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+// Renames diarized speakers. Edits are committed on blur or Enter, so the
+// transcript and its saved history entry are not rewritten on every keystroke.
+const SpeakerNames: React.FC<SpeakerNamesProps> = ({ speakerIds, names, onChange, disabled = false }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>(names);
+
+  useEffect(() => {
+    setDrafts(names);
+  }, [names]);
+
+  const commit = (id: string) => {
+    const name = drafts[id]?.trim() ?? '';
+    if (name === (names[id] ?? '')) return;
+    const { [id]: _previous, ...rest } = names;
+    onChange(name ? { ...rest, [id]: name } : rest);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">Speakers</span>
+      {speakerIds.map(id => (
+        <input
+          key={id}
+          type="text"
+          value={drafts[id] ?? ''}
+          placeholder={speakerName(id)}
+          onChange={(e) => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+          onBlur={() => commit(id)}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          disabled={disabled}
+          aria-label={`Name for ${speakerName(id)}`}
+          className="w-40 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SpeakerNames;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { Formality, Register, TranslationStyle } from '../types';
+import { FORMALITY_LABELS, REGISTER_LABELS } from '../constants';
+import { findLanguage } from '../utils/language';
+import { describeStyle, isEmptyStyle } from '../utils/translationStyle';
+
+interface StyleProfileManagerProps {
+  // The selected target languages; profiles saved for other languages are listed after them.
+  languages: string[];
+  profiles: Record<string, TranslationStyle>;
+  onChange: (profiles: Record<string, TranslationStyle>) => void;
+}
+
+const inputClasses = "px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Per-language formality and register, applied whenever that language is translated into.
+const StyleProfileManager: React.FC<StyleProfileManagerProps> = ({ languages, profiles, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const codes = [...languages, ...Object.keys(profiles).filter(code => !languages.includes(code))];
+  const configured = Object.keys(profiles).length;
+
+  // A profile with nothing set is removed rather than kept empty.
+  const updateProfile = (code: string, patch: TranslationStyle) => {
+    const { [code]: current, ...others } = profiles;
+    const updated = Object.fromEntries(Object.entries({ ...current, ...patch }).filter(([, value]) => value)) as TranslationStyle;
+    onChange(isEmptyStyle(updated) ? others : { ...others, [code]: updated });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex w-full justify-between items-center text-left" aria-expanded={isOpen}>
+        <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Translation style{configured > 0 ? ` (${configured})` : ''}</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <ul className="mt-4 space-y-3">
+          {codes.map(code => {
+            const style = profiles[code] ?? {};
+            const name = findLanguage(code).name;
+            return (
+              <li key={code} className="flex flex-wrap items-center gap-2">
+                <span className="flex-grow min-w-[10rem] text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  {name}
+                  {!isEmptyStyle(style) && <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">{describeStyle(style)}</span>}
+                </span>
+                <select
+                  value={style.formality ?? ''}
+                  onChange={(e) => updateProfile(code, { formality: (e.target.value || undefined) as Formality | undefined })}
+                  aria-label={`Formality for ${name}`}
+                  className={inputClasses}
+                >
+                  <option value="">Any formality</option>
+                  {Object.entries(FORMALITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <select
+                  value={style.register ?? ''}
+                  onChange={(e) => updateProfile(code, { register: (e.target.value || undefined) as Register | undefined })}
+                  aria-label={`Register for ${name}`}
+                  className={inputClasses}
+                >
+                  <option value="">Any register</option>
+                  {Object.entries(REGISTER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StyleProfileManager;
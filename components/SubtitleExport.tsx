@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { buildSubtitles, SubtitleFormat, SubtitleTrack } from '../utils/subtitles';
+import { baseFileName, downloadFile } from '../utils/download';
+
+interface SubtitleExportProps {
+  segments: TranscriptSegment[];
+  fileName: string;
+  languageCode: string;
+  // The language of the transcript, when known.
+  sourceLanguageCode?: string;
+  speakerNames?: Record<string, string>;
+  disabled?: boolean;
+}
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+const SubtitleExport: React.FC<SubtitleExportProps> = ({ segments, fileName, languageCode, sourceLanguageCode, speakerNames, disabled = false }) => {
+  const [track, setTrack] = useState<SubtitleTrack>('translation');
+  const hasTranslation = segments.some(s => s.translations?.[languageCode]);
+
+  const handleExport = (format: SubtitleFormat) => {
+    const selectedTrack = hasTranslation ? track : 'original';
+    const content = buildSubtitles(segments, format, { track: selectedTrack, languageCode, sourceLanguageCode, speakerNames });
+    const suffix = selectedTrack === 'original' ? 'original' : selectedTrack === 'translation' ? languageCode : `original-${languageCode}`;
+    downloadFile(content, `${baseFileName(fileName)}.${suffix}.${format}`, MIME_TYPES[format]);
+  };
+
+  const buttonClasses = "px-4 py-2 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">Export subtitles</span>
+      <select
+        value={hasTranslation ? track : 'original'}
+        onChange={(e) => setTrack(e.target.value as SubtitleTrack)}
+        disabled={disabled || !hasTranslation}
+        aria-label="Subtitle track"
+        className="px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        <option value="original">Original</option>
+        <option value="translation">Translation</option>
+        <option value="bilingual">Bilingual (original + translation)</option>
+      </select>
+      <button onClick={() => handleExport('srt')} disabled={disabled} className={buttonClasses}>SRT</button>
+      <button onClick={() => handleExport('vtt')} disabled={disabled} className={buttonClasses}>WebVTT</button>
+    </div>
+  );
+};
+
+export default SubtitleExport;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/time';
+import { speakerName } from '../utils/speakers';
+
+interface TranscriptEditorProps {
+  text: string;
+  // A timed transcript is edited segment by segment, keeping its timing and speakers.
+  segments: TranscriptSegment[];
+  speakerNames: Record<string, string>;
+  onTranslate: (text: string, segments: TranscriptSegment[]) => void;
+  onCancel: () => void;
+}
+
+const fieldClasses = "w-full px-3 py-2 text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Corrects a transcript, or takes typed text, and sends it to be translated again.
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ text, segments, speakerNames, onTranslate, onCancel }) => {
+  const [draft, setDraft] = useState(text);
+  const [segmentDrafts, setSegmentDrafts] = useState(() => segments.map(segment => segment.text));
+
+  const submit = () => {
+    if (segments.length > 0) {
+      // Segments emptied in the editor are dropped; their old translations go with them.
+      const edited = segments
+        .map(({ translations: _previous, ...segment }, i) => ({ ...segment, text: segmentDrafts[i].trim() }))
+        .filter(segment => segment.text);
+      onTranslate('', edited);
+    } else {
+      onTranslate(draft.trim(), []);
+    }
+  };
+
+  const isEmpty = segments.length > 0 ? segmentDrafts.every(segment => !segment.trim()) : !draft.trim();
+
+  return (
+    <div className="space-y-3">
+      {segments.length > 0 ? (
+        <ol className="space-y-2">
+          {segments.map((segment, i) => (
+            <li key={i}>
+              <label className="block text-xs font-mono text-gray-500 dark:text-gray-400 mb-1">
+                {formatTime(segment.start)}{segment.speaker ? ` · ${speakerName(segment.speaker, speakerNames)}` : ''}
+              </label>
+              <textarea
+                value={segmentDrafts[i]}
+                onChange={(e) => setSegmentDrafts(prev => prev.map((value, j) => j === i ? e.target.value : value))}
+                rows={2}
+                className={fieldClasses}
+              />
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={6}
+          placeholder="Type or correct the text to translate..."
+          aria-label="Transcript"
+          className={fieldClasses}
+          autoFocus
+        />
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={submit}
+          disabled={isEmpty}
+          className="px-4 py-2 text-sm font-semibold rounded-full bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Translate
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { TranslationResult } from '../types';
+import { findLanguage } from '../utils/language';
+
+interface TranslationTabsProps {
+  translations: Record<string, TranslationResult>;
+  activeLanguage: string;
+  onSelect: (languageCode: string) => void;
+}
+
+const StatusDot: React.FC<{ result: TranslationResult }> = ({ result }) => {
+  if (result.status === 'pending') {
+    return <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path></svg>;
+  }
+  const color = result.status === 'error' ? 'bg-red-500' : result.status === 'skipped' ? 'bg-amber-500' : 'bg-green-500';
+  return <span className={`inline-block h-2 w-2 rounded-full ${color}`} />;
+};
+
+const TranslationTabs: React.FC<TranslationTabsProps> = ({ translations, activeLanguage, onSelect }) => (
+  <div role="tablist" className="flex flex-wrap gap-1 mb-3 border-b border-gray-200 dark:border-gray-700">
+    {Object.entries(translations).map(([code, result]: [string, TranslationResult]) => {
+      const isActive = code === activeLanguage;
+      return (
+        <button
+          key={code}
+          role="tab"
+          aria-selected={isActive}
+          onClick={() => onSelect(code)}
+          title={result.error}
+          className={`flex items-center gap-2 px-3 py-2 -mb-px text-sm font-semibold border-b-2 transition-colors focus:outline-none ${isActive ? 'border-indigo-500 text-indigo-700 dark:text-indigo-300' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+        >
+          {findLanguage(code).name}
+          <StatusDot result={result} />
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default TranslationTabs;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import type { UsageBudget, UsageSummary, UsageTotals } from '../types';
+import { formatTime } from '../utils/time';
+
+interface UsagePanelProps {
+  // Null while unknown, e.g. when the API server cannot be reached.
+  usage: UsageSummary | null;
+  onRefresh: () => void;
+  onSaveBudget: (budget: UsageBudget) => Promise<void>;
+}
+
+const inputClasses = "w-28 px-3 py-2 text-sm text-gray-900 dark:text-gray-100 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const buttonClasses = "px-3 py-1 text-sm font-semibold rounded-full bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const ROWS: { label: string; value: (totals: UsageTotals) => string }[] = [
+  { label: 'Requests', value: totals => totals.requests.toLocaleString() },
+  { label: 'Input tokens', value: totals => totals.inputTokens.toLocaleString() },
+  { label: 'Output tokens', value: totals => totals.outputTokens.toLocaleString() },
+  { label: 'Live audio', value: totals => formatTime(totals.audioSeconds) },
+  { label: 'Estimated cost', value: totals => formatCost(totals.cost) },
+];
+
+// An empty field means no limit.
+const parseLimit = (value: string): number | undefined => value.trim() === '' ? undefined : Number(value);
+
+// API use metered by the server, and the spending limits it is held to.
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, onRefresh, onSaveBudget }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [warnAtPercent, setWarnAtPercent] = useState('80');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const budget = usage?.budget;
+  useEffect(() => {
+    if (!budget) return;
+    setDailyLimit(budget.dailyLimit?.toString() ?? '');
+    setMonthlyLimit(budget.monthlyLimit?.toString() ?? '');
+    setWarnAtPercent(String(Math.round(budget.warnAt * 100)));
+  }, [budget?.dailyLimit, budget?.monthlyLimit, budget?.warnAt]);
+
+  const toggle = () => {
+    if (!isOpen) onRefresh();
+    setIsOpen(!isOpen);
+  };
+
+  const daily = parseLimit(dailyLimit);
+  const monthly = parseLimit(monthlyLimit);
+  const warnAt = Number(warnAtPercent) / 100;
+  const isValid = [daily, monthly].every(limit => limit === undefined || (Number.isFinite(limit) && limit >= 0))
+    && warnAt > 0 && warnAt <= 1;
+
+  const save = async () => {
+    try {
+      await onSaveBudget({
+        ...(daily !== undefined ? { dailyLimit: daily } : {}),
+        ...(monthly !== undefined ? { monthlyLimit: monthly } : {}),
+        warnAt,
+      });
+      setMessage({ text: 'Budget saved.', isError: false });
+    } catch (e) {
+      console.error('Failed to save the budget', e);
+      const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+      setMessage({ text: `The budget could not be saved: ${errorMessage}`, isError: true });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700">
+      <button onClick={toggle} className="flex w-full justify-between items-center text-left" aria-expanded={isOpen}>
+        <h2 className="text-xl font-bold text-gray-700 dark:text-gray-300">Usage{usage ? ` (${formatCost(usage.month.cost)} this month)` : ''}</h2>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{isOpen ? 'Hide' : 'Show'}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {!usage ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Usage is unavailable. It is metered by the API server; see the README.</p>
+          ) : (
+            <>
+              <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-1 font-semibold"></th>
+                    <th className="py-1 font-semibold text-right">Today</th>
+                    <th className="py-1 font-semibold text-right">This month</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ROWS.map(row => (
+                    <tr key={row.label} className="border-t border-gray-200 dark:border-gray-700">
+                      <td className="py-1">{row.label}</td>
+                      <td className="py-1 text-right font-mono">{row.value(usage.today)}</td>
+                      <td className="py-1 text-right font-mono">{row.value(usage.month)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {usage.sessions.length > 0 && (
+                <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400">
+                      <th className="py-1 font-semibold">Recent live sessions</th>
+                      <th className="py-1 font-semibold text-right">Audio</th>
+                      <th className="py-1 font-semibold text-right">Tokens</th>
+                      <th className="py-1 font-semibold text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.sessions.map(session => (
+                      <tr key={session.id} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="py-1">{new Date(session.startedAt).toLocaleString()}</td>
+                        <td className="py-1 text-right font-mono">{formatTime(session.totals.audioSeconds)}</td>
+                        <td className="py-1 text-right font-mono">{(session.totals.inputTokens + session.totals.outputTokens).toLocaleString()}</td>
+                        <td className="py-1 text-right font-mono">{formatCost(session.totals.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">Costs are estimated from list prices; your bill may differ.</p>
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="block mb-1">Daily limit ($)</span>
+                  <input type="number" min="0" step="0.01" value={dailyLimit} onChange={(e) => setDailyLimit(e.target.value)} placeholder="None" className={inputClasses} />
+                </label>
+                <label className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="block mb-1">Monthly limit ($)</span>
+                  <input type="number" min="0" step="0.01" value={monthlyLimit} onChange={(e) => setMonthlyLimit(e.target.value)} placeholder="None" className={inputClasses} />
+                </label>
+                <label className="text-sm text-gray-600 dark:text-gray-400">
+                  <span className="block mb-1">Warn at (%)</span>
+                  <input type="number" min="1" max="100" value={warnAtPercent} onChange={(e) => setWarnAtPercent(e.target.value)} className={inputClasses} />
+                </label>
+                <button onClick={save} disabled={!isValid} className={buttonClasses}>Save budget</button>
+              </div>
+              {message && <p className={`text-sm ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{message.text}</p>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
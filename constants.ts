@@ -1,5 +1,8 @@
 
-import { Language } from './types';
+import { Formality, Language, Register } from './types';
+
+// Source language value meaning "detect from the transcript".
+export const AUTO_DETECT = 'auto';
 
 export const TARGET_LANGUAGES: Language[] = [
   { code: 'en', name: 'English' },
@@ -16,3 +19,36 @@ export const TARGET_LANGUAGES: Language[] = [
   { code: 'ar', name: 'Arabic' },
   { code: 'hi', name: 'Hindi' },
 ];
+
+// Regional variants offered as targets next to their language. Glossaries
+// treat them as the language itself (see `isSameLanguage`), but text in
+// another variant is still translated into them (see `isAlreadyInLanguage`).
+export const REGIONAL_VARIANTS: Language[] = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-MX', name: 'Spanish (Mexico)' },
+  { code: 'fr-CA', name: 'French (Canada)' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)' },
+  { code: 'zh-TW', name: 'Chinese (Traditional)' },
+];
+
+// Every language that can be translated into, each followed by its regional variants.
+export const TARGET_LANGUAGE_CHOICES: Language[] = TARGET_LANGUAGES.flatMap(language => [
+  language,
+  ...REGIONAL_VARIANTS.filter(variant => variant.code.split('-')[0] === language.code.split('-')[0]),
+]);
+
+export const FORMALITY_LABELS: Record<Formality, string> = {
+  formal: 'Formal',
+  informal: 'Informal',
+};
+
+export const REGISTER_LABELS: Record<Register, string> = {
+  casual: 'Casual',
+  business: 'Business',
+  medical: 'Medical',
+  legal: 'Legal',
+  technical: 'Technical',
+};
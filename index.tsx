@@ -2,15 +2,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import CaptionWindow from './components/CaptionWindow';
+import { isCaptionWindow } from './services/captionChannel';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Lets the installed app start without a connection. Left out in development,
+// where cached modules would get in the way of reloading.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(e => console.error('Service worker registration failed', e));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isCaptionWindow() ? <CaptionWindow /> : <App />}
   </React.StrictMode>
 );
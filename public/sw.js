@@ -0,0 +1,58 @@
+// Keeps the app loadable without a connection, so recordings can still be
+// made and queued. API requests are never cached.
+
+// Filled in by the build (see `precacheBuild` in vite.config.ts) with the
+// hashed scripts and styles, and a version that changes with them.
+const BUILD_ASSETS = [];
+const BUILD_VERSION = 'dev';
+
+const CACHE_NAME = `echotranslate-${BUILD_VERSION}`;
+// All cached on install, so the app opens offline even if it was never used after installing.
+const APP_SHELL = [...new Set(['/', '/index.html', '/manifest.webmanifest', '/icon.svg', ...BUILD_ASSETS])];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const cacheResponse = (request, response) => {
+  // Cross-origin responses come back opaque.
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // The page itself is fetched fresh when possible, so new builds are picked up.
+    event.respondWith(
+      fetch(request)
+        .then(response => cacheResponse('/index.html', response))
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy is always current.
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(response => cacheResponse(request, response))),
+  );
+});
@@ -0,0 +1,285 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AudioBlob, LiveSessionCallbacks, LiveSessionHandle, TranslationProvider } from '../types';
+import { createApiServer } from './app';
+import { createRateLimiter } from './rateLimit';
+import { createUsageMeter } from './usageMeter';
+import { GEMINI_LIVE_MODEL } from '../services/providers/geminiProvider';
+
+// Stands in for Gemini. Live sessions are kept so tests can drive them from the model's side.
+const createStubUpstream = () => {
+  const live: { callbacks: LiveSessionCallbacks; handle: LiveSessionHandle & { sent: AudioBlob[]; ended: number; closed: boolean } }[] = [];
+  const upstream: TranslationProvider = {
+    id: 'gemini',
+    name: 'Stub',
+    transcribeAudio: vi.fn(async () => [{ start: 0, end: 1.5, text: 'Hello there.' }]),
+    translateText: vi.fn(async (text: string) => ({ translation: `[fr] ${text}` })),
+    translateSegments: vi.fn(async (texts: string[]) => texts.map(text => `[fr] ${text}`)),
+    detectLanguage: vi.fn(async () => 'en'),
+    connectLive: vi.fn(async (callbacks: LiveSessionCallbacks) => {
+      const handle = {
+        sent: [] as AudioBlob[],
+        ended: 0,
+        closed: false,
+        sendAudio(blob: AudioBlob) { handle.sent.push(blob); },
+        endAudioStream() { handle.ended += 1; },
+        close() { handle.closed = true; },
+      };
+      live.push({ callbacks, handle });
+      callbacks.onOpen();
+      return handle;
+    }),
+  };
+  return { upstream, live };
+};
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+const start = async (options: Partial<Parameters<typeof createApiServer>[0]> = {}) => {
+  const stub = createStubUpstream();
+  const server = createApiServer({ upstream: stub.upstream, ...options });
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const post = (path: string, body: unknown) =>
+    fetch(base + path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: typeof body === 'string' ? body : JSON.stringify(body) });
+  return { ...stub, base, post };
+};
+
+// Reads server-sent events from `response` as they arrive.
+const eventReader = (response: Response) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  return async (): Promise<{ event: string; data: any }> => {
+    for (;;) {
+      const end = buffer.indexOf('\n\n');
+      if (end >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (block.startsWith(':')) continue;
+        const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+        const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? '{}');
+        return { event, data };
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error('The event stream ended.');
+      buffer += decoder.decode(value, { stream: true });
+    }
+  };
+};
+
+describe('one-shot routes', () => {
+  it('translates through the upstream', async () => {
+    const { upstream, post } = await start();
+    const response = await post('/api/translate', { text: 'Hello', language: 'fr', source: 'en', glossary: [{ source: 'Hello', target: 'Salut', note: 'dropped' }] });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ translation: '[fr] Hello' });
+    expect(upstream.translateText).toHaveBeenCalledWith(
+      'Hello',
+      expect.objectContaining({ code: 'fr' }),
+      expect.objectContaining({ code: 'en' }),
+      { glossary: [{ source: 'Hello', target: 'Salut' }] },
+    );
+  });
+
+  it('translates segments through the upstream', async () => {
+    const { post } = await start();
+    const response = await post('/api/translate-segments', { texts: ['One.', 'Two.'], language: 'fr' });
+    expect(await response.json()).toEqual({ texts: ['[fr] One.', '[fr] Two.'] });
+  });
+
+  it('transcribes through the upstream', async () => {
+    const { upstream, post } = await start();
+    const audio = { data: 'AAAA', mimeType: 'audio/wav' };
+    const response = await post('/api/transcribe', { audio });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ segments: [{ start: 0, end: 1.5, text: 'Hello there.' }] });
+    expect(upstream.transcribeAudio).toHaveBeenCalledWith(audio);
+  });
+
+  it('rejects malformed bodies without calling the upstream', async () => {
+    const { upstream, post } = await start();
+    expect((await post('/api/translate', { text: 'Hello', language: 'not a code' })).status).toBe(400);
+    expect((await post('/api/translate', '{')).status).toBe(400);
+    expect((await post('/api/transcribe', { audio: 'AAAA' })).status).toBe(400);
+    expect(upstream.translateText).not.toHaveBeenCalled();
+    expect(upstream.transcribeAudio).not.toHaveBeenCalled();
+  });
+
+  it('passes on the status of an upstream failure', async () => {
+    const { upstream, post } = await start();
+    vi.mocked(upstream.translateText).mockRejectedValueOnce(Object.assign(new Error('Quota exceeded'), { status: 429 }));
+    const response = await post('/api/translate', { text: 'Hello', language: 'fr' });
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ error: 'Quota exceeded' });
+  });
+
+  it('answers unknown routes and methods', async () => {
+    const { base } = await start();
+    expect((await fetch(`${base}/api/nothing`, { method: 'POST' })).status).toBe(404);
+    expect((await fetch(`${base}/api/translate`)).status).toBe(405);
+  });
+});
+
+describe('limits', () => {
+  it('rejects a text body over the limit with 413', async () => {
+    const { upstream, post } = await start();
+    const response = await post('/api/translate', { text: 'a'.repeat(300 * 1024), language: 'fr' });
+    expect(response.status).toBe(413);
+    expect(upstream.translateText).not.toHaveBeenCalled();
+  });
+
+  it('rejects an oversized body sent without a length with 413', async () => {
+    const { base, upstream } = await start();
+    const chunk = new TextEncoder().encode('a'.repeat(64 * 1024));
+    let sent = 0;
+    const body = new ReadableStream({
+      pull(controller) {
+        if (sent++ < 8) controller.enqueue(chunk);
+        else controller.close();
+      },
+    });
+    const response = await fetch(`${base}/api/translate`, { method: 'POST', body, duplex: 'half' } as RequestInit);
+    expect(response.status).toBe(413);
+    expect(upstream.translateText).not.toHaveBeenCalled();
+  });
+
+  it('answers 429 with Retry-After once a client has spent its allowance', async () => {
+    const { post } = await start({ rateLimiter: createRateLimiter({ capacity: 2, perMinute: 6, now: () => 0 }) });
+    expect((await post('/api/detect-language', { text: 'Hello' })).status).toBe(200);
+    expect((await post('/api/detect-language', { text: 'Hello' })).status).toBe(200);
+    const limited = await post('/api/detect-language', { text: 'Hello' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('10');
+  });
+
+  it('rate-limits by the address the proxy added, not one the client forged', async () => {
+    const { base } = await start({ rateLimiter: createRateLimiter({ capacity: 1, perMinute: 1, now: () => 0 }) });
+    const detect = (forwarded: string) => fetch(`${base}/api/detect-language`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwarded },
+      body: JSON.stringify({ text: 'Hello' }),
+    });
+    expect((await detect('10.0.0.1, 203.0.113.7')).status).toBe(200);
+    expect((await detect('10.0.0.2, 203.0.113.7')).status).toBe(429);
+    expect((await detect('10.0.0.2, 203.0.113.8')).status).toBe(200);
+  });
+});
+
+describe('usage', () => {
+  const put = (base: string, body: unknown) =>
+    fetch(`${base}/api/usage/budget`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  it('sets the budget, and refuses new requests once it is reached', async () => {
+    const usageMeter = createUsageMeter();
+    const { base, post, upstream } = await start({ usageMeter });
+    const saved = await put(base, { dailyLimit: 0.01, warnAt: 0.5 });
+    expect((await saved.json()).budget).toEqual({ dailyLimit: 0.01, warnAt: 0.5 });
+
+    usageMeter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 600 });
+    expect((await post('/api/translate', { text: 'Hello', language: 'fr' })).status).toBe(402);
+    expect(upstream.translateText).not.toHaveBeenCalled();
+    expect((await (await fetch(`${base}/api/usage`)).json()).status).toBe('blocked');
+
+    expect((await put(base, { dailyLimit: 1, warnAt: 0.5 })).status).toBe(200);
+    expect((await post('/api/translate', { text: 'Hello', language: 'fr' })).status).toBe(200);
+  });
+
+  it('rejects an invalid budget', async () => {
+    const { base } = await start();
+    expect((await put(base, { dailyLimit: -1, warnAt: 0.5 })).status).toBe(400);
+    expect((await put(base, { warnAt: 2 })).status).toBe(400);
+    expect((await fetch(`${base}/api/usage/budget`, { method: 'POST' })).status).toBe(405);
+  });
+
+  it('rate-limits budget changes', async () => {
+    const { base } = await start({ rateLimiter: createRateLimiter({ capacity: 1, perMinute: 1, now: () => 0 }) });
+    expect((await put(base, { warnAt: 0.5 })).status).toBe(200);
+    expect((await put(base, { warnAt: 0.6 })).status).toBe(429);
+  });
+});
+
+describe('live relay', () => {
+  it('streams model events over SSE and forwards batched input', async () => {
+    const { base, live, post } = await start();
+    const controller = new AbortController();
+    const response = await fetch(`${base}/api/live`, { signal: controller.signal });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const next = eventReader(response);
+
+    expect((await next()).event).toBe('open');
+    const session = await next();
+    expect(session.event).toBe('session');
+
+    const [{ callbacks, handle }] = live;
+    callbacks.onTranscription('Hello');
+    callbacks.onTurnComplete();
+    expect(await next()).toEqual({ event: 'transcription', data: { text: 'Hello' } });
+    expect((await next()).event).toBe('turnComplete');
+
+    const audio = { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' };
+    const input = await post(`/api/live/${session.data.id}/input`, { items: [{ audio }, { audio }, { end: true }] });
+    expect(input.status).toBe(200);
+    expect(handle.sent).toEqual([audio, audio]);
+    expect(handle.ended).toBe(1);
+
+    controller.abort();
+    await vi.waitFor(() => expect(handle.closed).toBe(true));
+    expect((await post(`/api/live/${session.data.id}/input`, { items: [{ end: true }] })).status).toBe(404);
+  });
+
+  it('reports an upstream failure and ends the stream', async () => {
+    const { base, live } = await start();
+    const next = eventReader(await fetch(`${base}/api/live`));
+    await next();
+    await next();
+    live[0].callbacks.onError(Object.assign(new Error('Session limit'), { status: 429 }));
+    expect(await next()).toEqual({ event: 'failure', data: { message: 'Session limit', status: 429 } });
+    await expect(next()).rejects.toThrow('The event stream ended.');
+    expect(live[0].handle.closed).toBe(true);
+  });
+
+  it('closes an open session once the budget is reached', async () => {
+    const usageMeter = createUsageMeter();
+    usageMeter.setBudget({ dailyLimit: 0.01, warnAt: 0.8 });
+    const { base, live, post } = await start({ usageMeter });
+    const next = eventReader(await fetch(`${base}/api/live`));
+    await next();
+    const { data } = await next();
+    const input = { items: [{ audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } }] };
+    expect((await post(`/api/live/${data.id}/input`, input)).status).toBe(200);
+
+    usageMeter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 600, session: data.id });
+    const refused = await post(`/api/live/${data.id}/input`, input);
+    expect(refused.status).toBe(402);
+    expect(await next()).toEqual({ event: 'failure', data: { message: 'The usage budget has been reached.', status: 402 } });
+    expect(live[0].handle.sent).toHaveLength(1);
+    expect(live[0].handle.closed).toBe(true);
+    expect((await fetch(`${base}/api/live`)).status).toBe(402);
+  });
+
+  it('does not accept input for an unknown session', async () => {
+    const { post } = await start();
+    expect((await post('/api/live/unknown/input', { items: [{ end: true }] })).status).toBe(404);
+  });
+
+  it('does not rate-limit input to an open session', async () => {
+    const { base, live, post } = await start({ rateLimiter: createRateLimiter({ capacity: 1, perMinute: 1, now: () => 0 }) });
+    const next = eventReader(await fetch(`${base}/api/live`));
+    await next();
+    const { data } = await next();
+    for (let i = 0; i < 5; i++) {
+      expect((await post(`/api/live/${data.id}/input`, { items: [{ end: true }] })).status).toBe(200);
+    }
+    expect(live[0].handle.ended).toBe(5);
+  });
+});
@@ -0,0 +1,199 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AudioBlob, GlossaryTerm, Language, TranslateOptions, TranslationProvider, UsageBudget } from '../types';
+import { findLanguage, isLanguageCode } from '../utils/language';
+import { isEmptyStyle, sanitizeStyle } from '../utils/translationStyle';
+import { clientKey, httpError, readJson, sendJson, statusOf } from './http';
+import { createLiveRelay, LiveInput } from './liveRelay';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+import { BUDGET_REACHED, createUsageMeter, UsageMeter } from './usageMeter';
+
+// Inline audio is limited to about 20 MB upstream; base64 adds a third.
+const MAX_AUDIO_BODY_BYTES = 28 * 1024 * 1024;
+const MAX_TEXT_BODY_BYTES = 256 * 1024;
+// A batch of live input covers what was captured during one round trip.
+const MAX_LIVE_INPUT_BYTES = 1024 * 1024;
+
+interface ApiServerOptions {
+  // Gemini in production; tests pass a stub.
+  upstream: TranslationProvider;
+  // Applies to every request except live input, which belongs to an open session.
+  rateLimiter?: RateLimiter;
+  // Fed by `upstream`; once its budget is reached, new requests are refused
+  // and open live sessions are closed.
+  usageMeter?: UsageMeter;
+}
+
+type Body = Record<string, unknown>;
+
+const asObject = (value: unknown): Body => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw httpError(400, 'The request body must be a JSON object.');
+  return value as Body;
+};
+
+const stringField = (body: Body, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw httpError(400, `"${field}" must be a non-empty string.`);
+  return value;
+};
+
+const languageField = (body: Body, field: string): Language => {
+  const code = stringField(body, field);
+  if (!isLanguageCode(code)) throw httpError(400, `"${field}" is not a language code.`);
+  return findLanguage(code);
+};
+
+const optionalLanguageField = (body: Body, field: string): Language | undefined =>
+  body[field] === undefined ? undefined : languageField(body, field);
+
+const audioField = (body: Body, field: string): AudioBlob => {
+  const audio = asObject(body[field]);
+  return { data: stringField(audio, 'data'), mimeType: stringField(audio, 'mimeType') };
+};
+
+const isTerm = (term: unknown): term is GlossaryTerm =>
+  !!term && typeof (term as GlossaryTerm).source === 'string' && typeof (term as GlossaryTerm).target === 'string';
+
+// Styles end up in prompts too, so unknown settings are dropped rather than passed on.
+const translateOptions = (body: Body): TranslateOptions => {
+  if (body.glossary !== undefined && (!Array.isArray(body.glossary) || !body.glossary.every(isTerm))) {
+    throw httpError(400, '"glossary" must be a list of { source, target } terms.');
+  }
+  const style = sanitizeStyle(body.style);
+  return {
+    ...(Array.isArray(body.glossary) ? { glossary: body.glossary.map(({ source, target }) => ({ source, target })) } : {}),
+    ...(isEmptyStyle(style) ? {} : { style }),
+  };
+};
+
+const optionalLimit = (body: Body, field: string): number | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw httpError(400, `"${field}" must be an amount of at least 0.`);
+  return value;
+};
+
+const budgetFields = (body: Body): UsageBudget => {
+  const { warnAt } = body;
+  if (typeof warnAt !== 'number' || !(warnAt > 0 && warnAt <= 1)) throw httpError(400, '"warnAt" must be a share between 0 and 1.');
+  const dailyLimit = optionalLimit(body, 'dailyLimit');
+  const monthlyLimit = optionalLimit(body, 'monthlyLimit');
+  return {
+    ...(dailyLimit !== undefined ? { dailyLimit } : {}),
+    ...(monthlyLimit !== undefined ? { monthlyLimit } : {}),
+    warnAt,
+  };
+};
+
+const liveInputItems = (body: Body): LiveInput[] => {
+  const items = body.items;
+  if (!Array.isArray(items)) throw httpError(400, '"items" must be a list.');
+  return items.map(item => {
+    const entry = asObject(item);
+    return entry.end === true ? { end: true } : { audio: audioField(entry, 'audio') };
+  });
+};
+
+// The API the browser talks to instead of Gemini. It holds the API key,
+// limits how often each client may call and how much it may send at once,
+// and relays live sessions.
+export const createApiServer = ({
+  upstream,
+  rateLimiter = createRateLimiter({ capacity: 30, perMinute: 120 }),
+  usageMeter = createUsageMeter(),
+}: ApiServerOptions): Server => {
+  const relay = createLiveRelay(upstream, () => usageMeter.summary().status === 'blocked');
+
+  // One-shot routes: each reads a JSON body of at most `maxBytes` and answers with JSON.
+  const routes: Record<string, { maxBytes: number; handle: (body: Body) => Promise<unknown> }> = {
+    '/api/transcribe': {
+      maxBytes: MAX_AUDIO_BODY_BYTES,
+      handle: async body => ({ segments: await upstream.transcribeAudio(audioField(body, 'audio')) }),
+    },
+    '/api/translate': {
+      maxBytes: MAX_TEXT_BODY_BYTES,
+      handle: async body => upstream.translateText(stringField(body, 'text'), languageField(body, 'language'), optionalLanguageField(body, 'source'), translateOptions(body)),
+    },
+    '/api/translate-segments': {
+      maxBytes: MAX_TEXT_BODY_BYTES,
+      handle: async body => {
+        const texts = body.texts;
+        if (!Array.isArray(texts) || !texts.every(text => typeof text === 'string')) {
+          throw httpError(400, '"texts" must be a list of strings.');
+        }
+        return { texts: await upstream.translateSegments(texts, languageField(body, 'language'), optionalLanguageField(body, 'source'), translateOptions(body)) };
+      },
+    },
+    '/api/detect-language': {
+      maxBytes: MAX_TEXT_BODY_BYTES,
+      handle: async body => ({ language: await upstream.detectLanguage(stringField(body, 'text')) }),
+    },
+    '/api/speech': {
+      maxBytes: MAX_TEXT_BODY_BYTES,
+      handle: async body => {
+        if (!upstream.synthesizeSpeech) throw httpError(404, 'Speech synthesis is not available.');
+        return { audio: await upstream.synthesizeSpeech(stringField(body, 'text'), languageField(body, 'language')) };
+      },
+    },
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const client = clientKey(req);
+
+    const liveInput = path.match(/^\/api\/live\/([\w-]+)\/input$/);
+    if (req.method === 'POST' && liveInput) {
+      const body = asObject(await readJson(req, MAX_LIVE_INPUT_BYTES));
+      relay.input(liveInput[1], client, liveInputItems(body));
+      sendJson(res, 200, {});
+      return;
+    }
+
+    if (path === '/api/usage') {
+      if (req.method !== 'GET') throw httpError(405, 'Method not allowed.');
+      sendJson(res, 200, usageMeter.summary());
+      return;
+    }
+    const isBudget = path === '/api/usage/budget';
+    const route = routes[path];
+    const isLive = path === '/api/live';
+    if (!route && !isLive && !isBudget) throw httpError(404, 'Not found.');
+    if ((route && req.method !== 'POST') || (isLive && req.method !== 'GET') || (isBudget && req.method !== 'PUT')) {
+      throw httpError(405, 'Method not allowed.');
+    }
+
+    const retryAfter = rateLimiter.take(client);
+    if (retryAfter > 0) {
+      req.resume();
+      sendJson(res, 429, { error: 'Too many requests. Wait a moment and try again.' }, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+    // The budget can still be changed once it is reached; that is how it is raised.
+    if (isBudget) {
+      sendJson(res, 200, usageMeter.setBudget(budgetFields(asObject(await readJson(req, MAX_TEXT_BODY_BYTES)))));
+      return;
+    }
+    if (usageMeter.summary().status === 'blocked') {
+      req.resume();
+      sendJson(res, 402, { error: BUDGET_REACHED });
+      return;
+    }
+
+    if (isLive) {
+      relay.open(req, res, client);
+      return;
+    }
+    sendJson(res, 200, await route.handle(asObject(await readJson(req, route.maxBytes))));
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch(error => {
+      const status = statusOf(error);
+      if (status >= 500) console.error(`${req.method} ${req.url} failed:`, error);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendJson(res, status, { error: error instanceof Error ? error.message : 'The request failed.' });
+    });
+  });
+};
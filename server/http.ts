@@ -0,0 +1,66 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+export interface HttpError extends Error {
+  status: number;
+}
+
+export const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+// The status to answer with for an error thrown by a route. Upstream SDK
+// errors carry the status Gemini answered with; anything else is a bad gateway.
+export const statusOf = (error: unknown): number => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 502;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Reads a JSON body of at most `maxBytes`. A larger body is drained unread
+// and rejected with 413, so the client still gets an answer.
+export const readJson = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => httpError(413, `The request body is larger than ${Math.round(maxBytes / 1024)} KB.`);
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(tooLarge());
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      if (size > maxBytes) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(httpError(400, 'The request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const LOOPBACK = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+// Identifies the client for rate limiting. Requests relayed by the Vite dev
+// server come from loopback, and the proxy appends the address it saw to
+// X-Forwarded-For. Only that last entry is trusted: earlier ones are whatever
+// the client sent. The header is ignored from anywhere but loopback.
+export const clientKey = (req: IncomingMessage): string => {
+  const remote = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (LOOPBACK.has(remote) && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',').at(-1)!.trim();
+  }
+  return remote;
+};
@@ -0,0 +1,24 @@
+import { createGeminiProvider, parseTtsVoices } from '../services/providers/geminiProvider';
+import { createApiServer } from './app';
+import { createUsageMeter } from './usageMeter';
+
+// The same .env.local the Vite dev server reads; variables already set in the environment win.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the environment alone.
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local, or set TRANSLATION_PROVIDER=mock to run the app without this server.');
+  process.exit(1);
+}
+
+const port = Number(process.env.API_SERVER_PORT) || 3001;
+const usageMeter = createUsageMeter({ file: process.env.USAGE_FILE || '.api-usage.json' });
+const upstream = createGeminiProvider(apiKey, usageMeter.record, { ttsVoices: parseTtsVoices(process.env.GEMINI_TTS_VOICES) });
+// Only reachable from this machine; the Vite dev server relays browser requests to it.
+createApiServer({ upstream, usageMeter }).listen(port, '127.0.0.1', () => {
+  console.log(`API server listening on http://127.0.0.1:${port}`);
+});
@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { AudioBlob, LiveSessionHandle, TranslationProvider } from '../types';
+import { httpError, statusOf } from './http';
+import { BUDGET_REACHED } from './usageMeter';
+
+// Comments sent on an idle event stream so proxies do not time it out.
+const HEARTBEAT_MS = 15000;
+
+interface RelaySession {
+  handle: LiveSessionHandle;
+  client: string;
+  // Reports `error` to the client and closes the session.
+  fail: (error: Error) => void;
+}
+
+// One entry of a batch posted to a session's input.
+export type LiveInput = { audio: AudioBlob } | { end: true };
+
+export interface LiveRelay {
+  // Opens an upstream live session and streams its events to the client.
+  open: (req: IncomingMessage, res: ServerResponse, client: string) => void;
+  // Forwards a batch of input to the client's session.
+  input: (id: string, client: string, items: LiveInput[]) => void;
+}
+
+const errorData = (error: Error) => ({ message: error.message, status: statusOf(error) });
+
+const budgetReached = () => httpError(402, BUDGET_REACHED);
+
+// Relays live sessions over HTTP: events from the model go down a
+// server-sent event stream, which also keeps the session alive, and audio
+// comes up in batched POSTs. Closing the stream closes the upstream session.
+// Once `isBlocked` reports the budget reached, open sessions are closed too.
+export const createLiveRelay = (upstream: TranslationProvider, isBlocked: () => boolean = () => false): LiveRelay => {
+  const sessions = new Map<string, RelaySession>();
+
+  const open = (req: IncomingMessage, res: ServerResponse, client: string) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    const id = randomUUID();
+    let handle: LiveSessionHandle | null = null;
+    let ended = false;
+
+    const send = (event: string, data: object = {}) => {
+      if (!ended) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const end = () => {
+      if (ended) return;
+      ended = true;
+      clearInterval(heartbeat);
+      sessions.delete(id);
+      handle?.close();
+      res.end();
+    };
+    const fail = (error: Error) => {
+      send('failure', errorData(error));
+      end();
+    };
+    // Also catches a budget reached while the session only listens.
+    const heartbeat = setInterval(() => {
+      if (isBlocked()) fail(budgetReached());
+      else res.write(': keep-alive\n\n');
+    }, HEARTBEAT_MS);
+    req.on('close', end);
+
+    upstream.connectLive({
+      onOpen: () => send('open'),
+      onTranscription: text => send('transcription', { text }),
+      onTurnComplete: () => send('turnComplete'),
+      // Named apart from EventSource's own "error" event, which reports a broken stream.
+      onError: fail,
+      onClose: error => {
+        send('close', error ? errorData(error) : {});
+        end();
+      },
+    }).then(
+      connected => {
+        if (ended) {
+          connected.close();
+          return;
+        }
+        handle = connected;
+        sessions.set(id, { handle: connected, client, fail });
+        send('session', { id });
+      },
+      error => fail(error instanceof Error ? error : new Error('Could not open the live session.')),
+    );
+  };
+
+  const input = (id: string, client: string, items: LiveInput[]) => {
+    const session = sessions.get(id);
+    // Another client's session id is treated as unknown.
+    if (!session || session.client !== client) {
+      throw httpError(404, 'The live session has ended.');
+    }
+    if (isBlocked()) {
+      const error = budgetReached();
+      session.fail(error);
+      throw error;
+    }
+    for (const item of items) {
+      if ('end' in item) session.handle.endAudioStream();
+      else session.handle.sendAudio(item.audio);
+    }
+  };
+
+  return { open, input };
+};
@@ -0,0 +1,27 @@
+import { UsageEvent } from '../types';
+import { GEMINI_LIVE_MODEL, GEMINI_TEXT_MODEL, GEMINI_TTS_MODEL } from '../services/providers/geminiProvider';
+
+interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  // For the audio streamed to live sessions.
+  audioPerMinute?: number;
+}
+
+// Paid-tier list prices in US dollars, for estimates only: the bill is what
+// counts. Update them when the models or their prices change.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  [GEMINI_TEXT_MODEL]: { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+  // Audio input is billed at about 25 tokens a second. Its tokens are metered
+  // per minute, so the input tokens left are text; the output is spoken audio.
+  [GEMINI_LIVE_MODEL]: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 12, audioPerMinute: 0.0045 },
+  [GEMINI_TTS_MODEL]: { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+};
+
+// Models without a known price are counted but cost nothing in the estimate.
+export const estimateCost = (event: UsageEvent): number => {
+  const pricing = MODEL_PRICING[event.model];
+  if (!pricing) return 0;
+  if (event.kind === 'audio') return (event.seconds / 60) * (pricing.audioPerMinute ?? 0);
+  return (event.inputTokens * pricing.inputPerMillionTokens + event.outputTokens * pricing.outputPerMillionTokens) / 1_000_000;
+};
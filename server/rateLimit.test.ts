@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+const clock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+};
+
+describe('createRateLimiter', () => {
+  it('allows a burst of `capacity` requests, then asks to wait', () => {
+    const { now } = clock();
+    const limiter = createRateLimiter({ capacity: 3, perMinute: 60, now });
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 0]);
+    expect(limiter.take('a')).toBe(1);
+  });
+
+  it('refills at the sustained rate', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ capacity: 1, perMinute: 6, now });
+    limiter.take('a');
+    expect(limiter.take('a')).toBe(10);
+    advance(4000);
+    expect(limiter.take('a')).toBe(6);
+    advance(6000);
+    expect(limiter.take('a')).toBe(0);
+  });
+
+  it('does not refill beyond the burst capacity', () => {
+    const { now, advance } = clock();
+    const limiter = createRateLimiter({ capacity: 2, perMinute: 60, now });
+    advance(60 * 60000);
+    expect([limiter.take('a'), limiter.take('a')]).toEqual([0, 0]);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+  });
+
+  it('keeps an allowance per client', () => {
+    const { now } = clock();
+    const limiter = createRateLimiter({ capacity: 1, perMinute: 1, now });
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    expect(limiter.take('b')).toBe(0);
+  });
+
+});
@@ -0,0 +1,55 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface RateLimiterOptions {
+  // Requests a client may make in a burst.
+  capacity: number;
+  // Sustained requests per minute once the burst is spent.
+  perMinute: number;
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  // Takes one request from `key`'s allowance. Returns 0 if it may go ahead,
+  // otherwise the seconds until it may be retried.
+  take: (key: string) => number;
+}
+
+// Buckets of clients that have been idle long enough to refill completely
+// are forgotten once there are this many.
+const PRUNE_AT = 1000;
+
+// A token bucket per client.
+export const createRateLimiter = ({ capacity, perMinute, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const buckets = new Map<string, Bucket>();
+  const perMs = perMinute / 60000;
+
+  const refill = (bucket: Bucket, time: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * perMs);
+    bucket.updatedAt = time;
+  };
+
+  const prune = (time: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, time);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    }
+  };
+
+  return {
+    take: (key) => {
+      const time = now();
+      if (!buckets.has(key) && buckets.size >= PRUNE_AT) prune(time);
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: time };
+      buckets.set(key, bucket);
+      refill(bucket, time);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+    },
+  };
+};
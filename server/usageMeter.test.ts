@@ -0,0 +1,130 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GEMINI_LIVE_MODEL, GEMINI_TEXT_MODEL } from '../services/providers/geminiProvider';
+import { budgetStatus, createUsageMeter } from './usageMeter';
+import { estimateCost } from './pricing';
+
+const totals = (cost: number) => ({ requests: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost });
+
+// Local noon, away from any day boundary.
+const clock = (start = new Date(2024, 0, 31, 12).getTime()) => {
+  let time = start;
+  return { now: () => time, set: (date: Date) => { time = date.getTime(); } };
+};
+
+const tokens = (inputTokens: number, outputTokens: number, session?: string) =>
+  ({ kind: 'tokens' as const, model: GEMINI_TEXT_MODEL, inputTokens, outputTokens, ...(session ? { session } : {}) });
+
+describe('estimateCost', () => {
+  it('prices tokens per million and live audio per minute', () => {
+    expect(estimateCost(tokens(1_000_000, 0))).toBeCloseTo(0.3);
+    expect(estimateCost(tokens(0, 1_000_000))).toBeCloseTo(2.5);
+    expect(estimateCost({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 120 })).toBeCloseTo(0.009);
+  });
+
+  it('counts unknown models as free', () => {
+    expect(estimateCost({ ...tokens(1000, 1000), model: 'unknown' })).toBe(0);
+  });
+});
+
+describe('budgetStatus', () => {
+  it('is ok without limits', () => {
+    expect(budgetStatus(totals(100), totals(100), { warnAt: 0.8 })).toBe('ok');
+  });
+
+  it('warns from the share of a limit and blocks at the limit', () => {
+    const budget = { dailyLimit: 1, monthlyLimit: 10, warnAt: 0.8 };
+    expect(budgetStatus(totals(0.79), totals(0.79), budget)).toBe('ok');
+    expect(budgetStatus(totals(0.8), totals(0.8), budget)).toBe('warning');
+    expect(budgetStatus(totals(0.1), totals(8), budget)).toBe('warning');
+    expect(budgetStatus(totals(1), totals(1), budget)).toBe('blocked');
+    expect(budgetStatus(totals(0), totals(10), budget)).toBe('blocked');
+  });
+});
+
+describe('createUsageMeter', () => {
+  it('adds up calls for the day and the month', () => {
+    const { now, set } = clock();
+    const meter = createUsageMeter({ now });
+    meter.record(tokens(1000, 500));
+    meter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 30 });
+    set(new Date(2024, 1, 1, 12));
+    meter.record(tokens(2000, 0));
+
+    const { today, month } = meter.summary();
+    expect(today).toMatchObject({ requests: 1, inputTokens: 2000, outputTokens: 0, audioSeconds: 0 });
+    expect(month).toEqual(today);
+
+    set(new Date(2024, 0, 31, 18));
+    expect(meter.summary().month).toMatchObject({ requests: 1, inputTokens: 1000, outputTokens: 500, audioSeconds: 30 });
+  });
+
+  it('keeps totals per live session, newest first, without counting its reports as requests', () => {
+    const { now, set } = clock();
+    const meter = createUsageMeter({ now });
+    meter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 60, session: 'a' });
+    meter.record({ ...tokens(100, 2000, 'a'), model: GEMINI_LIVE_MODEL });
+    set(new Date(2024, 0, 31, 13));
+    meter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 5, session: 'b' });
+
+    const { today, sessions } = meter.summary();
+    expect(today.requests).toBe(0);
+    expect(sessions.map(session => session.id)).toEqual(['b', 'a']);
+    expect(sessions[1]).toMatchObject({ startedAt: new Date(2024, 0, 31, 12).getTime(), totals: { audioSeconds: 60, inputTokens: 100, outputTokens: 2000 } });
+    expect(sessions[1].totals.cost).toBeCloseTo(0.0045 + 0.00005 + 0.024);
+  });
+
+  it('keeps only the most recent sessions', () => {
+    const meter = createUsageMeter({ now: clock().now });
+    for (let i = 0; i < 25; i++) meter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 1, session: `s${i}` });
+    const { sessions } = meter.summary();
+    expect(sessions).toHaveLength(20);
+    expect(sessions[0].id).toBe('s24');
+    expect(sessions[19].id).toBe('s5');
+  });
+
+  it('reports the budget status with the totals', () => {
+    const meter = createUsageMeter({ now: clock().now });
+    expect(meter.setBudget({ dailyLimit: 0.01, warnAt: 0.5 }).status).toBe('ok');
+    meter.record(tokens(0, 2000));
+    expect(meter.summary().status).toBe('warning');
+    meter.record(tokens(0, 2000));
+    expect(meter.summary().status).toBe('blocked');
+  });
+
+  describe('with a file', () => {
+    let dir = '';
+
+    afterEach(() => {
+      vi.useRealTimers();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('saves totals, sessions and the budget, and reads them back', async () => {
+      vi.useFakeTimers();
+      dir = mkdtempSync(join(tmpdir(), 'usage-'));
+      const file = join(dir, 'usage.json');
+      const { now } = clock();
+      const meter = createUsageMeter({ file, now });
+      meter.setBudget({ monthlyLimit: 5, warnAt: 0.9 });
+      meter.record({ kind: 'audio', model: GEMINI_LIVE_MODEL, seconds: 10, session: 'a' });
+      await vi.advanceTimersByTimeAsync(2000);
+      vi.useRealTimers();
+      await vi.waitFor(() => expect(JSON.parse(readFileSync(file, 'utf8')).sessions).toHaveLength(1));
+
+      const reloaded = createUsageMeter({ file, now }).summary();
+      expect(reloaded.budget).toEqual({ monthlyLimit: 5, warnAt: 0.9 });
+      expect(reloaded.today.audioSeconds).toBe(10);
+      expect(reloaded.sessions[0].id).toBe('a');
+    });
+
+    it('starts from zero without one', () => {
+      dir = mkdtempSync(join(tmpdir(), 'usage-'));
+      const summary = createUsageMeter({ file: join(dir, 'missing.json') }).summary();
+      expect(summary.today.cost).toBe(0);
+      expect(summary.sessions).toEqual([]);
+    });
+  });
+});
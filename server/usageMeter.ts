@@ -0,0 +1,134 @@
+import { readFileSync, writeFile } from 'node:fs';
+import { BudgetStatus, LiveSessionUsage, UsageBudget, UsageEvent, UsageSummary, UsageTotals } from '../types';
+import { estimateCost } from './pricing';
+
+export const DEFAULT_BUDGET: UsageBudget = { warnAt: 0.8 };
+
+export const BUDGET_REACHED = 'The usage budget has been reached.';
+
+// Writes are batched, since live sessions report audio several times a second.
+const SAVE_DELAY_MS = 2000;
+// Live sessions older than the latest this many are forgotten.
+const MAX_SESSIONS = 20;
+
+interface UsageLog {
+  budget: UsageBudget;
+  // Totals keyed by local date, e.g. "2024-01-31".
+  days: Record<string, UsageTotals>;
+  // Oldest first.
+  sessions: LiveSessionUsage[];
+}
+
+interface UsageMeterOptions {
+  // Where totals and the budget are kept between runs; in memory only when omitted.
+  file?: string;
+  now?: () => number;
+}
+
+export interface UsageMeter {
+  record: (event: UsageEvent) => void;
+  summary: () => UsageSummary;
+  setBudget: (budget: UsageBudget) => UsageSummary;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0 });
+
+const addTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  requests: a.requests + b.requests,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  audioSeconds: a.audioSeconds + b.audioSeconds,
+  cost: a.cost + b.cost,
+});
+
+const dayKey = (time: number): string => {
+  const date = new Date(time);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+};
+
+const loadLog = (file: string | undefined): UsageLog => {
+  if (!file) return { budget: DEFAULT_BUDGET, days: {}, sessions: [] };
+  try {
+    const log = JSON.parse(readFileSync(file, 'utf8'));
+    return { budget: { ...DEFAULT_BUDGET, ...log.budget }, days: log.days ?? {}, sessions: log.sessions ?? [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Could not read usage from ${file}; starting from zero:`, error);
+    return { budget: DEFAULT_BUDGET, days: {}, sessions: [] };
+  }
+};
+
+const eventTotals = (event: UsageEvent): UsageTotals => ({
+  // Token reports of a live session are part of it, not requests of their own.
+  requests: event.kind === 'tokens' && !event.session ? 1 : 0,
+  inputTokens: event.kind === 'tokens' ? event.inputTokens : 0,
+  outputTokens: event.kind === 'tokens' ? event.outputTokens : 0,
+  audioSeconds: event.kind === 'audio' ? event.seconds : 0,
+  cost: estimateCost(event),
+});
+
+export const budgetStatus = (today: UsageTotals, month: UsageTotals, budget: UsageBudget): BudgetStatus => {
+  const limits = [[today.cost, budget.dailyLimit], [month.cost, budget.monthlyLimit]]
+    .filter((pair): pair is [number, number] => pair[1] !== undefined);
+  if (limits.some(([spent, limit]) => spent >= limit)) return 'blocked';
+  if (limits.some(([spent, limit]) => spent >= limit * budget.warnAt)) return 'warning';
+  return 'ok';
+};
+
+// Keeps per-day and per-live-session totals of API use with their estimated
+// cost, and the budget they are held to.
+export const createUsageMeter = ({ file, now = Date.now }: UsageMeterOptions = {}): UsageMeter => {
+  const log = loadLog(file);
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    if (!file || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      writeFile(file, JSON.stringify(log), error => {
+        if (error) console.error(`Could not save usage to ${file}:`, error);
+      });
+    }, SAVE_DELAY_MS);
+    // A pending write does not keep the process alive.
+    saveTimer.unref?.();
+  };
+
+  const summary = (): UsageSummary => {
+    const today = dayKey(now());
+    const month = today.slice(0, 7);
+    const todayTotals = log.days[today] ?? emptyTotals();
+    const monthTotals = Object.entries(log.days)
+      .filter(([day]) => day.startsWith(month))
+      .reduce((sum, [, totals]) => addTotals(sum, totals), emptyTotals());
+    return {
+      today: todayTotals,
+      month: monthTotals,
+      sessions: [...log.sessions].reverse(),
+      budget: log.budget,
+      status: budgetStatus(todayTotals, monthTotals, log.budget),
+    };
+  };
+
+  return {
+    record: (event) => {
+      const time = now();
+      const totals = eventTotals(event);
+      const day = dayKey(time);
+      log.days[day] = addTotals(log.days[day] ?? emptyTotals(), totals);
+      if (event.session) {
+        let session = log.sessions.find(({ id }) => id === event.session);
+        if (!session) {
+          session = { id: event.session, startedAt: time, totals: emptyTotals() };
+          log.sessions = [...log.sessions, session].slice(-MAX_SESSIONS);
+        }
+        session.totals = addTotals(session.totals, totals);
+      }
+      save();
+    },
+    summary,
+    setBudget: (budget) => {
+      log.budget = budget;
+      save();
+      return summary();
+    },
+  };
+};
@@ -0,0 +1,43 @@
+import { BatchJob, BatchJobStatus } from '../types';
+import { BATCH_QUEUE_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+// All or none of the files are added.
+export const addBatchJobs = async (jobs: BatchJob[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BATCH_QUEUE_STORE, 'readwrite');
+  const store = transaction.objectStore(BATCH_QUEUE_STORE);
+  jobs.forEach(job => store.put(job));
+  await transactionDone(transaction);
+};
+
+// Oldest first, the order they are processed and listed in.
+export const listBatchJobs = async (): Promise<BatchJob[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(BATCH_QUEUE_STORE).objectStore(BATCH_QUEUE_STORE).index('createdAt');
+  return requestToPromise(index.getAll());
+};
+
+// Applies `patch` only if the job is still in one of `from`, reading and
+// writing in one transaction so two tabs cannot both move the same job on.
+// Resolves with the updated job, or null if it had moved on or been deleted.
+export const transitionBatchJob = async (id: string, from: BatchJobStatus[], patch: Partial<Omit<BatchJob, 'id'>>): Promise<BatchJob | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BATCH_QUEUE_STORE, 'readwrite');
+  const store = transaction.objectStore(BATCH_QUEUE_STORE);
+  const job: BatchJob | undefined = await requestToPromise(store.get(id));
+  const updated = job && from.includes(job.status) ? { ...job, ...patch } : null;
+  if (updated) store.put(updated);
+  await transactionDone(transaction);
+  return updated;
+};
+
+// Resolves with the updated job, or null if it has been deleted meanwhile.
+export const updateBatchJob = (id: string, patch: Partial<Omit<BatchJob, 'id'>>): Promise<BatchJob | null> =>
+  transitionBatchJob(id, ['queued', 'transcribing', 'translating', 'done', 'failed'], patch);
+
+export const deleteBatchJob = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(BATCH_QUEUE_STORE, 'readwrite');
+  transaction.objectStore(BATCH_QUEUE_STORE).delete(id);
+  await transactionDone(transaction);
+};
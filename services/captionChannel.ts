@@ -0,0 +1,60 @@
+// Connects the main window to caption windows opened from it. BroadcastChannel
+// only reaches windows of the same origin in the same browser, so nothing
+// leaves the machine.
+const CHANNEL_NAME = 'echotranslate-captions';
+
+// What the audience sees: the transcript so far and its translations, keyed
+// by language code, in target-language order.
+export interface CaptionState {
+  transcript: string;
+  translations: Record<string, string>;
+}
+
+type CaptionMessage =
+  | { type: 'state'; state: CaptionState }
+  // Sent by a caption window when it opens, so it need not wait for the next change.
+  | { type: 'request' };
+
+// The app renders the caption window instead of itself when opened with this view.
+const CAPTION_VIEW = 'captions';
+
+export const isCaptionWindow = (): boolean => new URLSearchParams(window.location.search).get('view') === CAPTION_VIEW;
+
+// Reuses the caption window if one is already open.
+export const openCaptionWindow = () => {
+  window.open(`${window.location.pathname}?view=${CAPTION_VIEW}`, 'echotranslate-captions', 'popup,width=1280,height=720');
+};
+
+export const EMPTY_CAPTIONS: CaptionState = { transcript: '', translations: {} };
+
+export interface CaptionPublisher {
+  publish: (state: CaptionState) => void;
+  close: () => void;
+}
+
+export const createCaptionPublisher = (): CaptionPublisher => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: CaptionMessage) => channel.postMessage(message);
+  let latest = EMPTY_CAPTIONS;
+  channel.onmessage = (event: MessageEvent<CaptionMessage>) => {
+    if (event.data?.type === 'request') post({ type: 'state', state: latest });
+  };
+  return {
+    publish: (state) => {
+      latest = state;
+      post({ type: 'state', state });
+    },
+    close: () => channel.close(),
+  };
+};
+
+// Calls `onState` with every update from the main window. Returns a function that stops listening.
+export const subscribeToCaptions = (onState: (state: CaptionState) => void): (() => void) => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CaptionMessage>) => {
+    if (event.data?.type === 'state') onState(event.data.state);
+  };
+  const request: CaptionMessage = { type: 'request' };
+  channel.postMessage(request);
+  return () => channel.close();
+};
@@ -0,0 +1,34 @@
+export type CaptionContrast = 'dark' | 'light' | 'yellow';
+
+export interface CaptionSettings {
+  // In pixels.
+  fontSize: number;
+  contrast: CaptionContrast;
+  // How many lines of captions stay on screen.
+  lines: number;
+  // A target language code; empty follows the first one the main window translates into.
+  language: string;
+  showOriginal: boolean;
+}
+
+const CAPTION_SETTINGS_KEY = 'captionSettings';
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = { fontSize: 48, contrast: 'dark', lines: 3, language: '', showOriginal: false };
+
+export const loadCaptionSettings = (): CaptionSettings => {
+  try {
+    const stored = localStorage.getItem(CAPTION_SETTINGS_KEY);
+    return { ...DEFAULT_CAPTION_SETTINGS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch (e) {
+    console.error("Failed to load caption settings from localStorage", e);
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+};
+
+export const saveCaptionSettings = (settings: CaptionSettings) => {
+  try {
+    localStorage.setItem(CAPTION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save caption settings to localStorage", e);
+  }
+};
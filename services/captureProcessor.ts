@@ -0,0 +1,65 @@
+import { BatchJob, CaptureJob, Glossary, HistoryEntry, TranscriptSegment, TranslationProvider } from '../types';
+import { blobToBase64, decodeToMono } from '../utils/audio';
+import { glossaryTermsFor } from '../utils/glossary';
+import { withTranslations } from '../utils/history';
+import { findLanguage, isAlreadyInLanguage } from '../utils/language';
+import { segmentsToText } from '../utils/transcript';
+import { CHUNK_SAMPLE_RATE, transcribeInChunks } from './chunkedTranscriber';
+import { createSourceLanguageResolver } from './sourceLanguage';
+
+interface CaptureProcessingOptions {
+  provider: TranslationProvider;
+  glossaries: Glossary[];
+  // Called once transcription is done and translation begins.
+  onTranslating?: () => void;
+}
+
+// What processing needs of a queued recording or a batch-uploaded file.
+type QueuedAudio = Pick<CaptureJob | BatchJob, 'audio' | 'sourceLanguage' | 'targetLanguages' | 'styles'>;
+
+// Transcribes and translates queued audio the way an uploaded file is,
+// without showing any of it, and returns the history entry to save.
+// Fails as a whole, so a retry starts over.
+export const processCaptureJob = async (job: QueuedAudio, { provider, glossaries, onTranslating }: CaptureProcessingOptions): Promise<Omit<HistoryEntry, 'id' | 'createdAt'>> => {
+  const samples = await decodeToMono(await job.audio.arrayBuffer(), CHUNK_SAMPLE_RATE).catch(e => {
+    console.warn('Could not decode the audio locally:', e);
+    return null;
+  });
+  const segments: TranscriptSegment[] = samples
+    ? (await transcribeInChunks({
+      samples,
+      sampleRate: CHUNK_SAMPLE_RATE,
+      transcribe: provider.transcribeAudio,
+      signal: new AbortController().signal,
+      onProgress: () => {},
+    })).segments
+    // Formats the browser cannot decode are sent as they are, in one request.
+    : await provider.transcribeAudio({ mimeType: job.audio.type, data: await blobToBase64(job.audio) });
+  if (segments.length === 0) {
+    throw new Error('No speech was found in the recording.');
+  }
+  onTranslating?.();
+
+  const transcription = segmentsToText(segments);
+  const source = await createSourceLanguageResolver(job.sourceLanguage, provider.detectLanguage)(transcription);
+  const texts = segments.map(segment => segment.text);
+  const translated = await Promise.all(job.targetLanguages.map(code =>
+    source && isAlreadyInLanguage(source.code, code)
+      ? texts
+      : provider.translateSegments(texts, findLanguage(code), source ?? undefined, {
+        glossary: glossaryTermsFor(glossaries, code, source?.code),
+        ...(job.styles?.[code] ? { style: job.styles[code] } : {}),
+      })));
+  const translatedSegments = segments.map((segment, i) => ({
+    ...segment,
+    translations: Object.fromEntries(job.targetLanguages.map((code, j) => [code, translated[j][i]])),
+  }));
+
+  return {
+    transcribedText: transcription,
+    sourceLanguage: source?.code,
+    ...withTranslations(Object.fromEntries(job.targetLanguages.map(code => [code, segmentsToText(translatedSegments, code)]))),
+    segments: translatedSegments,
+    ...(job.styles ? { styles: job.styles } : {}),
+  };
+};
@@ -0,0 +1,41 @@
+import { CaptureJob, CaptureJobStatus } from '../types';
+import { CAPTURE_QUEUE_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+export const addCaptureJob = async (job: CaptureJob): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CAPTURE_QUEUE_STORE, 'readwrite');
+  transaction.objectStore(CAPTURE_QUEUE_STORE).put(job);
+  await transactionDone(transaction);
+};
+
+// Oldest first, the order they are processed in.
+export const listCaptureJobs = async (): Promise<CaptureJob[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(CAPTURE_QUEUE_STORE).objectStore(CAPTURE_QUEUE_STORE).index('createdAt');
+  return requestToPromise(index.getAll());
+};
+
+// Applies `patch` only if the job is still in one of `from`, in one
+// transaction, so two tabs cannot both move the same job on. Resolves with
+// the updated job, or null if it had moved on or been deleted.
+export const transitionCaptureJob = async (id: string, from: CaptureJobStatus[], patch: Partial<Omit<CaptureJob, 'id'>>): Promise<CaptureJob | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CAPTURE_QUEUE_STORE, 'readwrite');
+  const store = transaction.objectStore(CAPTURE_QUEUE_STORE);
+  const job: CaptureJob | undefined = await requestToPromise(store.get(id));
+  const updated = job && from.includes(job.status) ? { ...job, ...patch } : null;
+  if (updated) store.put(updated);
+  await transactionDone(transaction);
+  return updated;
+};
+
+// Resolves with the updated job, or null if it has been deleted meanwhile.
+export const updateCaptureJob = (id: string, patch: Partial<Omit<CaptureJob, 'id'>>): Promise<CaptureJob | null> =>
+  transitionCaptureJob(id, ['pending', 'processing', 'failed'], patch);
+
+export const deleteCaptureJob = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CAPTURE_QUEUE_STORE, 'readwrite');
+  transaction.objectStore(CAPTURE_QUEUE_STORE).delete(id);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,70 @@
+import { AudioBlob, TranscriptSegment } from '../types';
+import { encode, encodeWav } from '../utils/audio';
+import { mergeChunkSegments, planChunks } from '../utils/chunking';
+
+// Chunks are sent as 16 kHz mono WAV: two minutes is under 4 MB, well inside
+// the limit for inline audio, and short enough to transcribe reliably.
+export const CHUNK_SAMPLE_RATE = 16000;
+const CHUNK_SECONDS = 120;
+const OVERLAP_SECONDS = 5;
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+interface ChunkedTranscriptionOptions {
+  samples: Float32Array;
+  sampleRate: number;
+  transcribe: (audio: AudioBlob) => Promise<TranscriptSegment[]>;
+  signal: AbortSignal;
+  // Called before the first chunk and after each one, with the merged transcript so far.
+  onProgress: (progress: ChunkProgress, segments: TranscriptSegment[]) => void;
+}
+
+export interface ChunkedTranscription {
+  segments: TranscriptSegment[];
+  // Set when cancelled part way; `segments` then covers the chunks finished before that.
+  cancelled: boolean;
+}
+
+// Settles with the task's result, or with null as soon as `signal` aborts.
+// The request itself cannot be recalled; its late result is ignored.
+const unlessAborted = <T>(task: Promise<T>, signal: AbortSignal): Promise<T | null> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      resolve(null);
+      return;
+    }
+    const onAbort = () => resolve(null);
+    signal.addEventListener('abort', onAbort, { once: true });
+    task
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+// Transcribes a long recording one overlapping chunk at a time, in order.
+export const transcribeInChunks = async ({ samples, sampleRate, transcribe, signal, onProgress }: ChunkedTranscriptionOptions): Promise<ChunkedTranscription> => {
+  const chunks = planChunks(samples.length / sampleRate, CHUNK_SECONDS, OVERLAP_SECONDS);
+  let segments: TranscriptSegment[] = [];
+  onProgress({ completed: 0, total: chunks.length }, segments);
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const slice = samples.subarray(Math.floor(chunk.start * sampleRate), Math.ceil(chunk.end * sampleRate));
+    const audio = { data: encode(encodeWav(slice, sampleRate)), mimeType: 'audio/wav' };
+    const result = await unlessAborted(transcribe(audio), signal);
+    if (result === null) {
+      return { segments, cancelled: true };
+    }
+    // Chunk transcripts are timed from the start of the chunk.
+    const absolute = result.map(segment => ({
+      ...segment,
+      start: segment.start + chunk.start,
+      end: Math.min(segment.end + chunk.start, chunk.end),
+    }));
+    segments = mergeChunkSegments(segments, absolute, { start: chunk.start, end: chunks[i - 1]?.end ?? chunk.start });
+    onProgress({ completed: i + 1, total: chunks.length }, segments);
+  }
+  return { segments, cancelled: false };
+};
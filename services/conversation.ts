@@ -0,0 +1,29 @@
+import { AUTO_DETECT } from '../constants';
+import { ConversationSpeaker } from '../types';
+import { isSameLanguage } from '../utils/language';
+
+export const otherSpeaker = (speaker: ConversationSpeaker): ConversationSpeaker => speaker === 'a' ? 'b' : 'a';
+
+export const speakerLanguage = (languages: [string, string], speaker: ConversationSpeaker): string =>
+  speaker === 'a' ? languages[0] : languages[1];
+
+// Decides who said `text`. A manual assignment wins; otherwise the turn's
+// language is detected and matched against the pair. When detection fails or
+// finds a third language, speakers are assumed to take turns.
+export const resolveTurnSpeaker = async (
+  text: string,
+  languages: [string, string],
+  assigned: ConversationSpeaker | typeof AUTO_DETECT,
+  previous: ConversationSpeaker | null,
+  detect: (text: string) => Promise<string>,
+): Promise<ConversationSpeaker> => {
+  if (assigned !== AUTO_DETECT) return assigned;
+  try {
+    const detected = await detect(text);
+    if (isSameLanguage(detected, languages[0])) return 'a';
+    if (isSameLanguage(detected, languages[1])) return 'b';
+  } catch (e) {
+    console.error('Speaker detection failed:', e);
+  }
+  return previous ? otherSpeaker(previous) : 'a';
+};
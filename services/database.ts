@@ -0,0 +1,51 @@
+// The app's IndexedDB database, shared by the history and the two job queues.
+const DB_NAME = 'echotranslate';
+// 2: adds the capture queue. 3: adds the batch queue.
+const DB_VERSION = 3;
+export const HISTORY_STORE = 'history';
+export const CAPTURE_QUEUE_STORE = 'captureQueue';
+export const BATCH_QUEUE_STORE = 'batchQueue';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+        store.createIndex('targetLanguage', 'targetLanguage');
+      }
+      if (!db.objectStoreNames.contains(CAPTURE_QUEUE_STORE)) {
+        const store = db.createObjectStore(CAPTURE_QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(BATCH_QUEUE_STORE)) {
+        const store = db.createObjectStore(BATCH_QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
@@ -0,0 +1,22 @@
+import { Glossary } from '../types';
+
+const GLOSSARIES_KEY = 'glossaries';
+
+export const loadGlossaries = (): Glossary[] => {
+  try {
+    const stored = localStorage.getItem(GLOSSARIES_KEY);
+    const glossaries = stored ? JSON.parse(stored) : [];
+    return Array.isArray(glossaries) ? glossaries : [];
+  } catch (e) {
+    console.error("Failed to load glossaries from localStorage", e);
+    return [];
+  }
+};
+
+export const saveGlossaries = (glossaries: Glossary[]) => {
+  try {
+    localStorage.setItem(GLOSSARIES_KEY, JSON.stringify(glossaries));
+  } catch (e) {
+    console.error("Failed to save glossaries to localStorage", e);
+  }
+};
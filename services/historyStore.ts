@@ -0,0 +1,183 @@
+import { HistoryEntry } from '../types';
+import { TARGET_LANGUAGES } from '../constants';
+import { historyContentKey } from '../utils/historyExchange';
+import { getEntryTranslations } from '../utils/history';
+import { HISTORY_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+const LEGACY_HISTORY_KEY = 'transcriptionHistory';
+
+export interface HistoryQuery {
+  text?: string;
+  targetLanguage?: string;
+  // Inclusive bounds, in epoch milliseconds.
+  from?: number;
+  to?: number;
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+}
+
+// Entries saved before the IndexedDB store used an ISO date as id, a locale
+// string as timestamp and the language's display name.
+interface LegacyHistoryEntry {
+  id: string;
+  timestamp: string;
+  transcribedText: string;
+  translatedText: string;
+  targetLanguage: string;
+}
+
+const fromLegacyEntry = (legacy: LegacyHistoryEntry, index: number): HistoryEntry => {
+  const parsed = Date.parse(legacy.id);
+  const language = TARGET_LANGUAGES.find(l => l.name === legacy.targetLanguage || l.code === legacy.targetLanguage);
+  return {
+    id: crypto.randomUUID(),
+    // Legacy entries are newest first; keep that order if the id can't be parsed.
+    createdAt: Number.isNaN(parsed) ? Date.now() - index : parsed,
+    transcribedText: legacy.transcribedText ?? '',
+    translatedText: legacy.translatedText ?? '',
+    targetLanguage: language?.code ?? legacy.targetLanguage,
+  };
+};
+
+const migrateLegacyHistory = async (db: IDBDatabase) => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return;
+  let legacyEntries: LegacyHistoryEntry[];
+  try {
+    legacyEntries = JSON.parse(stored);
+  } catch (e) {
+    console.error('Discarding unreadable legacy history', e);
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+  if (Array.isArray(legacyEntries) && legacyEntries.length > 0) {
+    const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = transaction.objectStore(HISTORY_STORE);
+    legacyEntries.forEach((legacy, i) => store.put(fromLegacyEntry(legacy, i)));
+    await transactionDone(transaction);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// The shared database, with legacy history migrated on first use.
+const openHistoryDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = openDatabase().then(async db => {
+    await migrateLegacyHistory(db);
+    return db;
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const normalizeForSearch = (text: string): string =>
+  text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+
+const searchableText = (entry: HistoryEntry): string =>
+  normalizeForSearch([entry.transcribedText, ...Object.values(getEntryTranslations(entry))].join('\n'));
+
+// Every whitespace-separated term must appear in the original or one of the translations.
+const matchesText = (entry: HistoryEntry, terms: string[]): boolean => {
+  if (terms.length === 0) return true;
+  const haystack = searchableText(entry);
+  return terms.every(term => haystack.includes(term));
+};
+
+export const addHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).put(entry);
+  await transactionDone(transaction);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const countHistoryEntries = async (): Promise<number> => {
+  const db = await openHistoryDb();
+  return requestToPromise(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).count());
+};
+
+// Walks the createdAt index newest first. IndexedDB has no text index, so the
+// text and language filters are applied while iterating. The language filter
+// matches any of an entry's translations, not only the primary one.
+export const queryHistory = async ({ text = '', targetLanguage, from, to, offset = 0, limit = 10 }: HistoryQuery = {}): Promise<HistoryPage> => {
+  const db = await openHistoryDb();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('createdAt');
+  const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+    : from !== undefined ? IDBKeyRange.lowerBound(from)
+    : to !== undefined ? IDBKeyRange.upperBound(to)
+    : undefined;
+  const terms = normalizeForSearch(text).split(/\s+/).filter(Boolean);
+
+  return new Promise((resolve, reject) => {
+    const entries: HistoryEntry[] = [];
+    let total = 0;
+    const request = index.openCursor(range, 'prev');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ entries, total });
+        return;
+      }
+      const entry = cursor.value as HistoryEntry;
+      if ((!targetLanguage || targetLanguage in getEntryTranslations(entry)) && matchesText(entry, terms)) {
+        if (total >= offset && entries.length < limit) entries.push(entry);
+        total++;
+      }
+      cursor.continue();
+    };
+  });
+};
+
+// Newest first. With `ids`, only those entries are read; ids no longer in the history are left out.
+export const getHistoryEntries = async (ids?: string[]): Promise<HistoryEntry[]> => {
+  const db = await openHistoryDb();
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  if (!ids) return (await requestToPromise(store.index('createdAt').getAll())).reverse();
+  const found: (HistoryEntry | undefined)[] = await Promise.all(ids.map(id => requestToPromise(store.get(id))));
+  return found.filter((entry): entry is HistoryEntry => entry !== undefined).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export interface HistoryImportResult {
+  added: number;
+  skipped: number;
+}
+
+// Merges imported entries into the store. Entries whose content already exists
+// are skipped; an imported id that clashes with a different entry gets a new id.
+export const importHistoryEntries = async (entries: HistoryEntry[]): Promise<HistoryImportResult> => {
+  const db = await openHistoryDb();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = transaction.objectStore(HISTORY_STORE);
+  const existing: HistoryEntry[] = await requestToPromise(store.getAll());
+  const contentKeys = new Set(existing.map(historyContentKey));
+  const ids = new Set(existing.map(entry => entry.id));
+
+  let added = 0;
+  for (const entry of entries) {
+    const key = historyContentKey(entry);
+    if (contentKeys.has(key)) continue;
+    const id = ids.has(entry.id) ? crypto.randomUUID() : entry.id;
+    store.put({ ...entry, id });
+    contentKeys.add(key);
+    ids.add(id);
+    added++;
+  }
+  await transactionDone(transaction);
+  return { added, skipped: entries.length - added };
+};
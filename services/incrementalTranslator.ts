@@ -0,0 +1,94 @@
+import { Language } from '../types';
+import { joinSegments, splitFinalizedSegments } from '../utils/segmenter';
+
+interface Segment {
+  source: string;
+  translation: string | null;
+  pending: Promise<void> | null;
+  failed: boolean;
+}
+
+interface IncrementalTranslatorOptions {
+  language: Language;
+  translate: (text: string, language: Language) => Promise<string>;
+  onUpdate: (translation: string) => void;
+  // Called once per segment, in transcript order, as each one becomes part of the stitched translation.
+  onSegment?: (translation: string) => void;
+}
+
+export interface IncrementalTranslator {
+  push: (fullTranscript: string) => void;
+  flush: (fullTranscript: string) => Promise<string>;
+}
+
+// Translates a growing transcript one finalized segment at a time. Each segment
+// is translated exactly once; results are stitched in order as they arrive.
+export const createIncrementalTranslator = ({ language, translate, onUpdate, onSegment }: IncrementalTranslatorOptions): IncrementalTranslator => {
+  const segments: Segment[] = [];
+  let consumed = 0;
+  let emitted = 0;
+
+  // Only the contiguous run of finished segments is shown, so text never appears out of order.
+  const translatedPrefix = () => {
+    const done: string[] = [];
+    for (const segment of segments) {
+      if (segment.translation === null) break;
+      done.push(segment.translation);
+    }
+    return joinSegments(done, language.code);
+  };
+
+  const translateSegment = (segment: Segment) => {
+    segment.failed = false;
+    segment.pending = translate(segment.source, language)
+      .then(translation => {
+        segment.translation = translation;
+        onUpdate(translatedPrefix());
+        while (emitted < segments.length && segments[emitted].translation !== null) {
+          onSegment?.(segments[emitted].translation!);
+          emitted++;
+        }
+      })
+      .catch(e => {
+        console.error('Segment translation error:', e);
+        segment.failed = true;
+      })
+      .finally(() => {
+        segment.pending = null;
+      });
+  };
+
+  const addSegments = (sources: string[]) => {
+    for (const source of sources) {
+      const segment: Segment = { source, translation: null, pending: null, failed: false };
+      segments.push(segment);
+      translateSegment(segment);
+    }
+  };
+
+  const push = (fullTranscript: string) => {
+    const { segments: finalized, remainder } = splitFinalizedSegments(fullTranscript.slice(consumed));
+    if (finalized.length === 0) return;
+    consumed = fullTranscript.length - remainder.length;
+    addSegments(finalized);
+  };
+
+  const flush = async (fullTranscript: string): Promise<string> => {
+    push(fullTranscript);
+    const tail = fullTranscript.slice(consumed).trim();
+    consumed = fullTranscript.length;
+    if (tail) addSegments([tail]);
+
+    await Promise.all(segments.map(s => s.pending));
+    // Give segments that failed mid-stream one more attempt before giving up.
+    segments.filter(s => s.failed).forEach(translateSegment);
+    await Promise.all(segments.map(s => s.pending));
+
+    if (segments.some(s => s.translation === null)) {
+      throw new Error('Some segments could not be translated.');
+    }
+    return translatedPrefix();
+  };
+
+  return { push, flush };
+};
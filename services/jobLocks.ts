@@ -0,0 +1,12 @@
+// Queued jobs live in IndexedDB, where every open tab of the app sees them.
+// A tab works on a job only while it holds the job's Web Lock, which the
+// browser releases when that tab closes or crashes. So no job is run by two
+// tabs at once, and one left in progress by a closed tab can be taken over.
+export type JobQueue = 'batch' | 'capture';
+
+const lockName = (queue: JobQueue, id: string) => `echotranslate-${queue}-job-${id}`;
+
+// Runs `work` while holding the job's lock. Resolves with null without
+// running it if another tab holds the lock.
+export const withJobLock = <T>(queue: JobQueue, id: string, work: () => Promise<T>): Promise<T | null> =>
+  navigator.locks.request(lockName(queue, id), { ifAvailable: true }, lock => (lock ? work() : null));
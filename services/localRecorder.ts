@@ -0,0 +1,43 @@
+// How often the recorder hands over what it has encoded, so a failure late in
+// a long recording does not lose all of it.
+const TIMESLICE_MS = 1000;
+
+export interface LocalRecording {
+  audio: Blob;
+  durationMs: number;
+}
+
+export interface LocalRecorder {
+  stop: () => Promise<LocalRecording>;
+}
+
+// Records the stream in the browser's own compressed format. Used when there
+// is no connection to stream to; the result is decoded again for transcription.
+export const startLocalRecording = (stream: MediaStream): LocalRecorder => {
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const startedAt = performance.now();
+  recorder.ondataavailable = (event: BlobEvent) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(TIMESLICE_MS);
+
+  let stopped: Promise<LocalRecording> | null = null;
+  return {
+    stop: () => {
+      if (!stopped) {
+        stopped = new Promise(resolve => {
+          const durationMs = performance.now() - startedAt;
+          const finish = () => resolve({ audio: new Blob(chunks, { type: recorder.mimeType }), durationMs });
+          if (recorder.state === 'inactive') {
+            finish();
+            return;
+          }
+          recorder.onstop = finish;
+          recorder.stop();
+        });
+      }
+      return stopped;
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLevelFeed, InputLevel } from './microphoneCapture';
+
+const reading = (rms: number): InputLevel => ({ rms, peak: rms, clipping: false, durationMs: 40 });
+
+describe('createLevelFeed', () => {
+  it('gives a new listener the latest reading, then every later one', () => {
+    const feed = createLevelFeed();
+    feed.publish(reading(0.1));
+    const listener = vi.fn();
+    feed.subscribe(listener);
+    feed.publish(reading(0.2));
+    feed.publish(null);
+    expect(listener.mock.calls).toEqual([[reading(0.1)], [reading(0.2)], [null]]);
+  });
+
+  it('stops calling a listener once it unsubscribes', () => {
+    const feed = createLevelFeed();
+    const listener = vi.fn();
+    const unsubscribe = feed.subscribe(listener);
+    unsubscribe();
+    feed.publish(reading(0.3));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,132 @@
+import { AudioBlob } from '../types';
+import { AudioLevel, createPcmBlob, createResampler, measureLevel } from '../utils/audio';
+
+// The live session expects 16 kHz mono PCM.
+const TARGET_SAMPLE_RATE = 16000;
+// Frames the worklet collects before posting them, about 40 ms at 48 kHz.
+const BLOCK_FRAMES = 2048;
+// Peaks at or above this are treated as clipped.
+const CLIPPING_PEAK = 0.99;
+// How long the clipping warning stays up after the last clipped block.
+const CLIPPING_HOLD_MS = 1500;
+
+// Runs on the audio rendering thread. It only batches the first input channel
+// and hands it over; resampling and conversion happen on the main thread.
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(${BLOCK_FRAMES});
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let offset = 0;
+      while (offset < channel.length) {
+        const count = Math.min(channel.length - offset, this.block.length - this.filled);
+        this.block.set(channel.subarray(offset, offset + count), this.filled);
+        this.filled += count;
+        offset += count;
+        if (this.filled === this.block.length) {
+          this.port.postMessage(this.block);
+          this.block = new Float32Array(${BLOCK_FRAMES});
+          this.filled = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface InputLevel extends AudioLevel {
+  // True while any block in the last CLIPPING_HOLD_MS has clipped.
+  clipping: boolean;
+  // Length of the block the reading was taken from.
+  durationMs: number;
+}
+
+interface MicrophoneCaptureOptions {
+  stream: MediaStream;
+  onAudio: (blob: AudioBlob, level: InputLevel) => void;
+  onLevel?: (level: InputLevel) => void;
+}
+
+export interface MicrophoneCapture {
+  stop: () => Promise<void>;
+}
+
+// Hands level readings straight to whoever shows them, so a reading every
+// block re-renders the meter and not the whole app. Null means no reading.
+export interface LevelFeed {
+  publish: (level: InputLevel | null) => void;
+  // Calls `listener` with the latest reading now and with every later one.
+  subscribe: (listener: (level: InputLevel | null) => void) => () => void;
+}
+
+export const createLevelFeed = (): LevelFeed => {
+  const listeners = new Set<(level: InputLevel | null) => void>();
+  let latest: InputLevel | null = null;
+  return {
+    publish: level => {
+      latest = level;
+      listeners.forEach(listener => listener(level));
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      listener(latest);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Captures the stream at the device's own rate through an AudioWorklet and
+// delivers it as 16 kHz PCM blobs, with a level reading per block.
+export const startMicrophoneCapture = async ({ stream, onAudio, onLevel }: MicrophoneCaptureOptions): Promise<MicrophoneCapture> => {
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const context: AudioContext = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (e) {
+    await context.close();
+    throw e;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const capture = new AudioWorkletNode(context, 'pcm-capture', { numberOfInputs: 1, numberOfOutputs: 1, channelCount: 1 });
+  const resample = createResampler(context.sampleRate, TARGET_SAMPLE_RATE);
+  let lastClippedAt = -Infinity;
+
+  capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const measured = measureLevel(event.data);
+    if (measured.peak >= CLIPPING_PEAK) lastClippedAt = performance.now();
+    const level = {
+      ...measured,
+      clipping: performance.now() - lastClippedAt < CLIPPING_HOLD_MS,
+      durationMs: (event.data.length / context.sampleRate) * 1000,
+    };
+    onLevel?.(level);
+    const samples = resample(event.data);
+    if (samples.length > 0) onAudio(createPcmBlob(samples), level);
+  };
+  source.connect(capture);
+  // The node outputs silence; connecting it keeps it in the rendered graph.
+  capture.connect(context.destination);
+
+  return {
+    stop: async () => {
+      capture.port.onmessage = null;
+      source.disconnect();
+      capture.disconnect();
+      if (context.state !== 'closed') await context.close();
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseTtsVoices, ttsVoiceFor } from './geminiProvider';
+
+describe('ttsVoiceFor', () => {
+  const voices = { ja: 'Leda', 'pt-BR': 'Puck', pt: 'Charon' };
+
+  it('prefers the voice set for the exact code, then for the language', () => {
+    expect(ttsVoiceFor('pt-BR', voices)).toBe('Puck');
+    expect(ttsVoiceFor('pt-PT', voices)).toBe('Charon');
+    expect(ttsVoiceFor('ja', voices)).toBe('Leda');
+  });
+
+  it('falls back to the catch-all voice, then the default', () => {
+    expect(ttsVoiceFor('fr', { ...voices, '*': 'Fenrir' })).toBe('Fenrir');
+    expect(ttsVoiceFor('fr', voices)).toBe('Kore');
+    expect(ttsVoiceFor('fr')).toBe('Kore');
+  });
+});
+
+describe('parseTtsVoices', () => {
+  it('reads code and voice pairs', () => {
+    expect(parseTtsVoices('ja=Leda, pt-BR = Puck,*=Charon')).toEqual({ ja: 'Leda', 'pt-BR': 'Puck', '*': 'Charon' });
+  });
+
+  it('skips pairs it cannot use', () => {
+    expect(parseTtsVoices('ja, =Leda, es=, fr=Not a voice')).toEqual({});
+    expect(parseTtsVoices()).toEqual({});
+  });
+});
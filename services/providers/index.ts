@@ -0,0 +1,18 @@
+import { TranslationProvider } from '../../types';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { withResilience } from './resilient';
+
+let provider: TranslationProvider | null = null;
+
+// TRANSLATION_PROVIDER selects the backend ("gemini" or "mock"); the build
+// defaults it to the offline mock when no API key is configured. Gemini is
+// reached through the local API server, which holds the key.
+export const getTranslationProvider = (): TranslationProvider => {
+  if (provider) return provider;
+
+  provider = withResilience(process.env.TRANSLATION_PROVIDER === 'mock' ? createMockProvider() : createProxyProvider());
+  return provider;
+};
+
+export { createMockProvider, createProxyProvider, withResilience };
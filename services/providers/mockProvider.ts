@@ -0,0 +1,187 @@
+import { AudioBlob, GlossaryTerm, Language, LiveSessionCallbacks, LiveSessionHandle, TranscriptSegment, TranslateOptions, TranslationProvider, TranslationReply } from '../../types';
+import { joinSegments, splitFinalizedSegments } from '../../utils/segmenter';
+import { relevantTerms } from '../../utils/glossary';
+import { resolveDetectedLanguage } from '../../utils/language';
+
+// Scripted content for the offline provider. Everything it returns is derived
+// from these tables so the same input always produces the same output.
+export const MOCK_LIVE_TRANSCRIPT = 'Hello, thank you for coming today. Let us start with a short overview of the project.';
+// Later live turns, played only when the session outlives the first turn (conversation mode).
+const MOCK_LIVE_REPLIES = ['Gracias a ustedes por la invitación.', 'You are welcome.'];
+export const MOCK_FILE_TRANSCRIPT = 'Good morning everyone. This recording was transcribed by the offline demo provider.';
+
+// Keyed by sentence so that translating a transcript whole or one segment at a
+// time produces the same result.
+const MOCK_TRANSLATIONS: Record<string, Record<string, string>> = {
+  'Hello, thank you for coming today.': {
+    es: 'Hola, gracias por venir hoy.',
+    fr: "Bonjour, merci d'être venus aujourd'hui.",
+    de: 'Hallo, danke, dass Sie heute gekommen sind.',
+  },
+  'Let us start with a short overview of the project.': {
+    es: 'Empecemos con un breve resumen del proyecto.',
+    fr: 'Commençons par un bref aperçu du projet.',
+    de: 'Beginnen wir mit einem kurzen Überblick über das Projekt.',
+  },
+  'Gracias a ustedes por la invitación.': {
+    en: 'Thank you for the invitation.',
+  },
+  'You are welcome.': {
+    es: 'De nada.',
+    fr: 'Je vous en prie.',
+    de: 'Gern geschehen.',
+  },
+  'Good morning everyone.': {
+    es: 'Buenos días a todos.',
+    fr: 'Bonjour à tous.',
+    de: 'Guten Morgen zusammen.',
+  },
+  'This recording was transcribed by the offline demo provider.': {
+    es: 'Esta grabación fue transcrita por el proveedor de demostración sin conexión.',
+    fr: 'Cet enregistrement a été transcrit par le fournisseur de démonstration hors ligne.',
+    de: 'Diese Aufnahme wurde vom Offline-Demo-Anbieter transkribiert.',
+  },
+};
+
+// Scripted timing for the file transcript: each sentence starts this many seconds after the previous one.
+const MOCK_SEGMENT_SECONDS = 4;
+// The file transcript is diarized as this many speakers taking turns sentence by sentence.
+const MOCK_FILE_SPEAKERS = 2;
+
+// How many audio chunks the mock live session consumes before emitting the next word.
+const CHUNKS_PER_WORD = 2;
+
+interface MockProviderOptions {
+  latencyMs?: number;
+}
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const translateSentence = (sentence: string, language: Language): string =>
+  MOCK_TRANSLATIONS[sentence]?.[language.code] ?? `[${language.name}] ${sentence}`;
+
+// Scripted sentences keep their canned translation; anything else echoes the
+// source, so glossary terms are substituted literally where they occur.
+const applyGlossary = (sentence: string, language: Language, glossary: GlossaryTerm[]): string => {
+  const translated = translateSentence(sentence, language);
+  if (translated !== `[${language.name}] ${sentence}`) return translated;
+  return relevantTerms(sentence, glossary).reduce((result, term) => result.split(term.source).join(term.target), translated);
+};
+
+export const mockTranslate = (text: string, language: Language, glossary: GlossaryTerm[] = []): string => {
+  const { segments, remainder } = splitFinalizedSegments(text);
+  const sentences = [...segments, remainder.trim()].filter(Boolean);
+  return joinSegments(sentences.map(sentence => applyGlossary(sentence, language, glossary)), language.code);
+};
+
+// Scripts that identify a language on their own; checked in order, so kana wins over shared Han characters.
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, 'ja'],
+  [/[\uac00-\ud7af]/, 'ko'],
+  [/[\u4e00-\u9fff]/, 'zh'],
+  [/[\u0600-\u06ff]/, 'ar'],
+  [/[\u0900-\u097f]/, 'hi'],
+  [/[\u0400-\u04ff]/, 'ru'],
+];
+
+// A few very frequent words per Latin-script language.
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'you', 'to', 'of', 'thank', 'hello', 'this', 'with'],
+  es: ['el', 'la', 'de', 'que', 'y', 'es', 'gracias', 'hola', 'por', 'con'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'de', 'merci', 'bonjour', 'vous', 'avec'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'danke', 'hallo', 'mit', 'sie'],
+  it: ['il', 'che', 'di', 'è', 'e', 'grazie', 'ciao', 'per', 'con', 'sono'],
+  pt: ['o', 'que', 'de', 'e', 'é', 'obrigado', 'olá', 'para', 'com', 'não'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'dank', 'hallo', 'met', 'niet', 'ik'],
+};
+
+// Deterministic stand-in for model-based detection: script first, then stopword counts, defaulting to English.
+export const mockDetectLanguage = (text: string): string => {
+  const script = SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(text));
+  if (script) return resolveDetectedLanguage(script[1], text);
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = 'en';
+  let bestScore = 0;
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const score = words.filter(word => stopwords.includes(word)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const createMockProvider = ({ latencyMs = 400 }: MockProviderOptions = {}): TranslationProvider => {
+  const transcribeAudio = async (_audio: AudioBlob): Promise<TranscriptSegment[]> => {
+    await delay(latencyMs);
+    return splitFinalizedSegments(`${MOCK_FILE_TRANSCRIPT} `).segments.map((text, i) => ({
+      start: i * MOCK_SEGMENT_SECONDS,
+      end: (i + 1) * MOCK_SEGMENT_SECONDS - 0.5,
+      text,
+      speaker: String(i % MOCK_FILE_SPEAKERS + 1),
+    }));
+  };
+
+  const translateText = async (text: string, language: Language, _source?: Language, options: TranslateOptions = {}): Promise<TranslationReply> => {
+    await delay(latencyMs);
+    return { translation: mockTranslate(text, language, options.glossary), detectedSourceLanguage: mockDetectLanguage(text) };
+  };
+
+  const translateSegments = async (texts: string[], language: Language, _source?: Language, options: TranslateOptions = {}): Promise<string[]> => {
+    await delay(latencyMs);
+    return texts.map(text => mockTranslate(text, language, options.glossary));
+  };
+
+  const detectLanguage = async (text: string): Promise<string> => {
+    await delay(latencyMs);
+    return mockDetectLanguage(text);
+  };
+
+  const connectLive = async (callbacks: LiveSessionCallbacks): Promise<LiveSessionHandle> => {
+    const turns = [MOCK_LIVE_TRANSCRIPT, ...MOCK_LIVE_REPLIES].map(turn => turn.split(' '));
+    let chunkCount = 0;
+    let turnIndex = 0;
+    let wordIndex = 0;
+    let closed = false;
+
+    await delay(latencyMs);
+    // Open asynchronously, as a real socket would, so callers can finish wiring up first.
+    setTimeout(() => {
+      if (!closed) callbacks.onOpen();
+    }, 0);
+
+    return {
+      sendAudio: () => {
+        if (closed || turnIndex >= turns.length) return;
+        chunkCount++;
+        if (chunkCount % CHUNKS_PER_WORD !== 0) return;
+        const words = turns[turnIndex];
+        callbacks.onTranscription((wordIndex === 0 ? '' : ' ') + words[wordIndex]);
+        wordIndex++;
+        if (wordIndex === words.length) {
+          turnIndex++;
+          wordIndex = 0;
+          callbacks.onTurnComplete();
+        }
+      },
+      // The script ignores what the audio contains, so pauses change nothing.
+      endAudioStream: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose();
+      },
+    };
+  };
+
+  return {
+    id: 'mock',
+    name: 'Offline demo',
+    transcribeAudio,
+    translateText,
+    translateSegments,
+    detectLanguage,
+    connectLive,
+  };
+};
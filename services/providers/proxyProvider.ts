@@ -0,0 +1,142 @@
+import { AudioBlob, Language, LiveSessionCallbacks, LiveSessionHandle, TranscriptSegment, TranslateOptions, TranslationProvider, TranslationReply } from '../../types';
+import { parseSegmentTranslations, parseTranslationReply } from '../../utils/translationReply';
+
+// Where the local API server is reached; the Vite dev server relays this path to it.
+export const API_BASE_URL = '/api';
+
+type LiveInput = { audio: AudioBlob } | { end: true };
+
+// Errors keep the HTTP status so they are categorized like the SDK's own.
+export const apiError = (message: string, status?: number): Error => Object.assign(new Error(message), { status });
+
+const parseEventError = (data: string): Error => {
+  const { message, status } = JSON.parse(data || '{}');
+  return apiError(message || 'The live session failed.', status);
+};
+
+// Talks to Gemini through the local API server (see server/), so the API key
+// stays on the server.
+export const createProxyProvider = (baseUrl: string = API_BASE_URL): TranslationProvider => {
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw apiError(payload.error || `The API server answered with status ${response.status}.`, response.status);
+    }
+    return payload as T;
+  };
+
+  const translateBody = (language: Language, source?: Language, options: TranslateOptions = {}) => ({
+    language: language.code,
+    source: source?.code,
+    glossary: options.glossary,
+    style: options.style,
+  });
+
+  const transcribeAudio = async (audio: AudioBlob): Promise<TranscriptSegment[]> =>
+    (await post<{ segments: TranscriptSegment[] }>('/transcribe', { audio })).segments;
+
+  // Translations are checked again here: the server's answer is untrusted input too.
+  const translateText = async (text: string, language: Language, source?: Language, options?: TranslateOptions): Promise<TranslationReply> =>
+    parseTranslationReply(await post<unknown>('/translate', { text, ...translateBody(language, source, options) }), text);
+
+  const translateSegments = async (texts: string[], language: Language, source?: Language, options?: TranslateOptions): Promise<string[]> => {
+    if (texts.length === 0) return [];
+    return parseSegmentTranslations((await post<{ texts: unknown }>('/translate-segments', { texts, ...translateBody(language, source, options) })).texts, texts);
+  };
+
+  const detectLanguage = async (text: string): Promise<string> =>
+    (await post<{ language: string }>('/detect-language', { text })).language;
+
+  const synthesizeSpeech = async (text: string, language: Language): Promise<AudioBlob> =>
+    (await post<{ audio: AudioBlob }>('/speech', { text, language: language.code })).audio;
+
+  // Events arrive on a server-sent event stream; audio goes up in POSTs,
+  // one at a time so it stays in order, batching whatever was captured
+  // while the previous one was on its way.
+  const connectLive = (callbacks: LiveSessionCallbacks): Promise<LiveSessionHandle> =>
+    new Promise((resolve, reject) => {
+      const events = new EventSource(`${baseUrl}/live`);
+      let handle: LiveSessionHandle | null = null;
+      let finished = false;
+
+      const finish = (error?: Error) => {
+        if (finished) return;
+        finished = true;
+        events.close();
+        if (!handle) reject(error ?? apiError('The live session closed before it opened.'));
+        else callbacks.onClose(error);
+      };
+
+      const createHandle = (id: string): LiveSessionHandle => {
+        let queue: LiveInput[] = [];
+        let sending = false;
+        const flush = async () => {
+          if (sending || finished || queue.length === 0) return;
+          sending = true;
+          const items = queue;
+          queue = [];
+          try {
+            await post(`/live/${id}/input`, { items });
+          } catch (e) {
+            finish(e instanceof Error ? e : apiError('Could not send audio to the live session.'));
+          } finally {
+            sending = false;
+          }
+          flush();
+        };
+        const enqueue = (item: LiveInput) => {
+          queue.push(item);
+          flush();
+        };
+        return {
+          sendAudio: (blob) => enqueue({ audio: blob }),
+          endAudioStream: () => enqueue({ end: true }),
+          close: () => {
+            finished = true;
+            events.close();
+          },
+        };
+      };
+
+      events.addEventListener('session', (event: MessageEvent) => {
+        handle = createHandle(JSON.parse(event.data).id);
+        resolve(handle);
+      });
+      events.addEventListener('open', () => callbacks.onOpen());
+      events.addEventListener('transcription', (event: MessageEvent) => callbacks.onTranscription(JSON.parse(event.data).text));
+      events.addEventListener('turnComplete', () => callbacks.onTurnComplete());
+      events.addEventListener('failure', (event: MessageEvent) => {
+        const error = parseEventError(event.data);
+        if (handle && !finished) {
+          finished = true;
+          events.close();
+          callbacks.onError(error);
+        } else {
+          finish(error);
+        }
+      });
+      events.addEventListener('close', (event: MessageEvent) => {
+        const { message } = JSON.parse(event.data || '{}');
+        finish(message ? parseEventError(event.data) : undefined);
+      });
+      // The stream itself broke, e.g. the API server stopped. EventSource would
+      // reconnect on its own into a new session, so that is left to the caller.
+      events.onerror = () => finish(apiError('The connection to the API server was lost.'));
+    });
+
+  return {
+    id: 'gemini',
+    name: 'Gemini',
+    transcribeAudio,
+    translateText,
+    translateSegments,
+    detectLanguage,
+    synthesizeSpeech,
+    connectLive,
+  };
+};
@@ -0,0 +1,147 @@
+import { AudioBlob, LiveSessionCallbacks, LiveSessionHandle, TranslationProvider } from '../../types';
+import { isTransientError } from '../../utils/errors';
+import { backoffDelay, withRetry } from '../../utils/retry';
+import { pcmBlobMs } from '../../utils/audio';
+
+// Consecutive reconnection attempts before the session is given up.
+const MAX_RECONNECTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 10000;
+// Audio captured while disconnected is replayed on reconnection; beyond this
+// much the oldest is dropped.
+const MAX_BUFFERED_MS = 30000;
+
+// Marks where an utterance ended while the audio was being buffered.
+type BufferedInput = AudioBlob | 'end';
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Wraps `connect` so that a dropped live connection is re-established with
+// backoff, invisibly to the caller apart from the reconnect callbacks.
+// Errors that retrying cannot fix, such as a rejected API key, are passed on
+// to `onError` straight away.
+const connectResilientLive = async (
+  connect: (callbacks: LiveSessionCallbacks) => Promise<LiveSessionHandle>,
+  callbacks: LiveSessionCallbacks,
+): Promise<LiveSessionHandle> => {
+  let session: LiveSessionHandle | null = null;
+  // Bumped for every connection, so late events from a replaced one are ignored.
+  let generation = 0;
+  let closedByCaller = false;
+  let reconnecting = false;
+  let opened = false;
+  let buffer: BufferedInput[] = [];
+
+  const bufferInput = (input: BufferedInput) => {
+    buffer.push(input);
+    let total = buffer.reduce((ms, item) => ms + (item === 'end' ? 0 : pcmBlobMs(item)), 0);
+    while (total > MAX_BUFFERED_MS && buffer.length > 0) {
+      const dropped = buffer.shift()!;
+      if (dropped !== 'end') total -= pcmBlobMs(dropped);
+    }
+  };
+
+  const replay = (target: LiveSessionHandle) => {
+    const pending = buffer;
+    buffer = [];
+    pending.forEach(item => item === 'end' ? target.endAudioStream() : target.sendAudio(item));
+  };
+
+  const giveUp = (error: Error) => {
+    closedByCaller = true;
+    session?.close();
+    callbacks.onError(error);
+  };
+
+  const open = (): Promise<LiveSessionHandle> => {
+    const current = ++generation;
+    return connect({
+      onOpen: () => {
+        if (opened) return;
+        opened = true;
+        callbacks.onOpen();
+      },
+      onTranscription: callbacks.onTranscription,
+      onTurnComplete: callbacks.onTurnComplete,
+      onError: error => {
+        if (current === generation) handleDrop(error);
+      },
+      onClose: error => {
+        if (closedByCaller) {
+          if (current === generation) callbacks.onClose(error);
+        } else if (current === generation) {
+          handleDrop(error ?? new Error('The live connection closed unexpectedly.'));
+        }
+      },
+    });
+  };
+
+  const reconnect = async () => {
+    reconnecting = true;
+    session = null;
+    for (let attempt = 1; !closedByCaller; attempt++) {
+      callbacks.onReconnecting?.(attempt);
+      await delay(backoffDelay(attempt, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS));
+      if (closedByCaller) return;
+      try {
+        const next = await open();
+        if (closedByCaller) {
+          next.close();
+          return;
+        }
+        session = next;
+        reconnecting = false;
+        replay(next);
+        callbacks.onReconnected?.();
+        return;
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error('Could not reconnect the live session.');
+        if (!isTransientError(error) || attempt >= MAX_RECONNECTS) {
+          reconnecting = false;
+          giveUp(error);
+          return;
+        }
+      }
+    }
+  };
+
+  const handleDrop = (error: Error) => {
+    if (closedByCaller || reconnecting) return;
+    if (!isTransientError(error)) {
+      giveUp(error);
+      return;
+    }
+    reconnect();
+  };
+
+  session = await open();
+
+  return {
+    sendAudio: (blob) => {
+      if (session && !reconnecting) session.sendAudio(blob);
+      else bufferInput(blob);
+    },
+    endAudioStream: () => {
+      if (session && !reconnecting) session.endAudioStream();
+      else bufferInput('end');
+    },
+    close: () => {
+      closedByCaller = true;
+      session?.close();
+    },
+  };
+};
+
+// Retries transient failures of one-shot requests and reconnects dropped live sessions.
+export const withResilience = (provider: TranslationProvider): TranslationProvider => {
+  const synthesizeSpeech = provider.synthesizeSpeech;
+  return {
+    ...provider,
+    transcribeAudio: audio => withRetry(() => provider.transcribeAudio(audio)),
+    translateText: (text, language, source, options) => withRetry(() => provider.translateText(text, language, source, options)),
+    translateSegments: (texts, language, source, options) => withRetry(() => provider.translateSegments(texts, language, source, options)),
+    detectLanguage: text => withRetry(() => provider.detectLanguage(text)),
+    synthesizeSpeech: synthesizeSpeech && ((text, language) => withRetry(() => synthesizeSpeech(text, language))),
+    connectLive: callbacks => connectResilientLive(provider.connectLive, callbacks),
+  };
+};
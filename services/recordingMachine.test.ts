@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RecordingState } from '../types';
+import { createRecordingMachine, nextRecordingState, RecordingEvent } from './recordingMachine';
+
+const { IDLE, REQUESTING_PERMISSION, RECORDING, STOPPING, TRANSLATING, ERROR } = RecordingState;
+
+const EVENTS: RecordingEvent[] = ['start', 'connected', 'stop', 'process', 'done', 'cancel', 'fail'];
+
+const LEGAL: [RecordingState, RecordingEvent, RecordingState][] = [
+  [IDLE, 'start', REQUESTING_PERMISSION],
+  [IDLE, 'process', TRANSLATING],
+  [REQUESTING_PERMISSION, 'connected', RECORDING],
+  [REQUESTING_PERMISSION, 'cancel', IDLE],
+  [REQUESTING_PERMISSION, 'fail', ERROR],
+  [RECORDING, 'stop', STOPPING],
+  [RECORDING, 'cancel', IDLE],
+  [RECORDING, 'fail', ERROR],
+  [STOPPING, 'process', TRANSLATING],
+  [STOPPING, 'done', IDLE],
+  [STOPPING, 'cancel', IDLE],
+  [STOPPING, 'fail', ERROR],
+  [TRANSLATING, 'done', IDLE],
+  [TRANSLATING, 'cancel', IDLE],
+  [TRANSLATING, 'fail', ERROR],
+  [ERROR, 'start', REQUESTING_PERMISSION],
+  [ERROR, 'process', TRANSLATING],
+];
+
+// Drives a fresh machine into `state` through legal events.
+const PATHS: Record<RecordingState, RecordingEvent[]> = {
+  [IDLE]: [],
+  [REQUESTING_PERMISSION]: ['start'],
+  [RECORDING]: ['start', 'connected'],
+  [STOPPING]: ['start', 'connected', 'stop'],
+  [TRANSLATING]: ['process'],
+  [ERROR]: ['process', 'fail'],
+};
+
+const machineIn = (state: RecordingState) => {
+  const onChange = vi.fn();
+  const machine = createRecordingMachine(onChange);
+  PATHS[state].forEach(event => machine.send(event));
+  expect(machine.getState()).toBe(state);
+  onChange.mockClear();
+  return { machine, onChange };
+};
+
+describe('nextRecordingState', () => {
+  it.each(LEGAL)('%s + %s -> %s', (state, event, next) => {
+    expect(nextRecordingState(state, event)).toBe(next);
+  });
+
+  const illegal = Object.values(RecordingState).flatMap(state =>
+    EVENTS.filter(event => !LEGAL.some(([from, on]) => from === state && on === event)).map(event => [state, event] as const));
+
+  it.each(illegal)('rejects %s + %s', (state, event) => {
+    expect(nextRecordingState(state, event)).toBeNull();
+  });
+});
+
+describe('createRecordingMachine', () => {
+  it.each(LEGAL)('moves from %s on %s to %s and reports it', (state, event, next) => {
+    const { machine, onChange } = machineIn(state);
+    expect(machine.send(event)).toBe(true);
+    expect(machine.getState()).toBe(next);
+    expect(onChange).toHaveBeenCalledWith(next);
+  });
+
+  it('ignores stop while idle', () => {
+    const { machine, onChange } = machineIn(IDLE);
+    expect(machine.send('stop')).toBe(false);
+    expect(machine.getState()).toBe(IDLE);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('ignores start while translating', () => {
+    const { machine, onChange } = machineIn(TRANSLATING);
+    expect(machine.send('start')).toBe(false);
+    expect(machine.getState()).toBe(TRANSLATING);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('starts a run when it leaves idle and aborts it when it settles', () => {
+    const machine = createRecordingMachine(() => {});
+    expect(machine.signal().aborted).toBe(true);
+
+    machine.send('start');
+    const run = machine.signal();
+    expect(run.aborted).toBe(false);
+    machine.send('connected');
+    machine.send('stop');
+    expect(machine.signal()).toBe(run);
+
+    machine.send('done');
+    expect(run.aborted).toBe(true);
+  });
+
+  it('aborts the run on cancel and on failure', () => {
+    const machine = createRecordingMachine(() => {});
+    machine.send('process');
+    const cancelled = machine.signal();
+    machine.send('cancel');
+    expect(cancelled.aborted).toBe(true);
+
+    machine.send('process');
+    const failed = machine.signal();
+    expect(failed).not.toBe(cancelled);
+    machine.send('fail');
+    expect(failed.aborted).toBe(true);
+  });
+
+  it('lets the current run move the machine along', () => {
+    const machine = createRecordingMachine(() => {});
+    machine.send('process');
+    expect(machine.send('done', machine.signal())).toBe(true);
+    expect(machine.getState()).toBe(IDLE);
+  });
+
+  it('discards events from a run that has ended', () => {
+    const onChange = vi.fn();
+    const machine = createRecordingMachine(onChange);
+    machine.send('process');
+    const stale = machine.signal();
+    machine.send('cancel');
+    machine.send('process');
+    onChange.mockClear();
+
+    expect(machine.send('done', stale)).toBe(false);
+    expect(machine.send('fail', stale)).toBe(false);
+    expect(machine.getState()).toBe(TRANSLATING);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
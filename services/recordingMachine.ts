@@ -0,0 +1,81 @@
+import { RecordingState } from '../types';
+
+// start: the microphone is requested for a live session.
+// connected: the live session opened and audio is streaming.
+// stop: the user ended the recording; the session is being closed.
+// process: a translation or file transcription is under way.
+// done: the work finished normally.
+// cancel: the user abandoned the work in progress.
+// fail: the work ended with an error.
+export type RecordingEvent = 'start' | 'connected' | 'stop' | 'process' | 'done' | 'cancel' | 'fail';
+
+const TRANSITIONS: Record<RecordingState, Partial<Record<RecordingEvent, RecordingState>>> = {
+  [RecordingState.IDLE]: {
+    start: RecordingState.REQUESTING_PERMISSION,
+    process: RecordingState.TRANSLATING,
+  },
+  [RecordingState.REQUESTING_PERMISSION]: {
+    connected: RecordingState.RECORDING,
+    cancel: RecordingState.IDLE,
+    fail: RecordingState.ERROR,
+  },
+  [RecordingState.RECORDING]: {
+    stop: RecordingState.STOPPING,
+    cancel: RecordingState.IDLE,
+    fail: RecordingState.ERROR,
+  },
+  [RecordingState.STOPPING]: {
+    process: RecordingState.TRANSLATING,
+    done: RecordingState.IDLE,
+    cancel: RecordingState.IDLE,
+    fail: RecordingState.ERROR,
+  },
+  [RecordingState.TRANSLATING]: {
+    done: RecordingState.IDLE,
+    cancel: RecordingState.IDLE,
+    fail: RecordingState.ERROR,
+  },
+  [RecordingState.ERROR]: {
+    start: RecordingState.REQUESTING_PERMISSION,
+    process: RecordingState.TRANSLATING,
+  },
+};
+
+// The state `event` leads to, or null if it is not allowed in `state`.
+export const nextRecordingState = (state: RecordingState, event: RecordingEvent): RecordingState | null =>
+  TRANSITIONS[state][event] ?? null;
+
+const isSettled = (state: RecordingState) => state === RecordingState.IDLE || state === RecordingState.ERROR;
+
+export interface RecordingMachine {
+  getState: () => RecordingState;
+  // Applies `event` if the current state allows it and reports whether it did.
+  // Passing the `run` the caller belongs to makes the event a no-op once that
+  // run has ended, so late callbacks cannot move a newer run along.
+  send: (event: RecordingEvent, run?: AbortSignal) => boolean;
+  // The current run's signal. A run lasts from leaving IDLE or ERROR until the
+  // machine settles there again; the signal then aborts, and anything still in
+  // flight for it should discard its result.
+  signal: () => AbortSignal;
+}
+
+export const createRecordingMachine = (onChange: (state: RecordingState) => void): RecordingMachine => {
+  let state = RecordingState.IDLE;
+  let run = new AbortController();
+  run.abort();
+
+  return {
+    getState: () => state,
+    send: (event, caller) => {
+      if (caller && caller !== run.signal) return false;
+      const next = nextRecordingState(state, event);
+      if (next === null) return false;
+      if (isSettled(state)) run = new AbortController();
+      state = next;
+      if (isSettled(next)) run.abort();
+      onChange(next);
+      return true;
+    },
+    signal: () => run.signal,
+  };
+};
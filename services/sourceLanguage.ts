@@ -0,0 +1,26 @@
+import { Language } from '../types';
+import { AUTO_DETECT } from '../constants';
+import { findLanguage } from '../utils/language';
+
+export type SourceLanguageResolver = (text: string) => Promise<Language | null>;
+
+// Resolves the source language once per utterance: the user's explicit choice,
+// or a detection run on the first text that becomes available. A failed
+// detection resolves to null so translation can still go ahead without it.
+export const createSourceLanguageResolver = (
+  selected: string,
+  detect: (text: string) => Promise<string>,
+): SourceLanguageResolver => {
+  let pending: Promise<Language | null> | null = null;
+  return (text: string) => {
+    if (!pending) {
+      pending = selected !== AUTO_DETECT
+        ? Promise.resolve(findLanguage(selected))
+        : detect(text).then(findLanguage).catch(e => {
+          console.error('Language detection failed:', e);
+          return null;
+        });
+    }
+    return pending;
+  };
+};
@@ -0,0 +1,125 @@
+import { AudioBlob, Language } from '../types';
+import { decode, pcm16ToAudioBuffer, sampleRateFromMimeType } from '../utils/audio';
+import { isSameLanguage } from '../utils/language';
+
+// Gemini's speech models return 24 kHz PCM unless the mime type says otherwise.
+const DEFAULT_SPEECH_SAMPLE_RATE = 24000;
+
+interface SpeechItem {
+  text: string;
+  language: Language;
+}
+
+interface SpeechQueueOptions {
+  // Provider speech synthesis. Without it, or if it fails, the browser's own voices are used.
+  synthesize?: (text: string, language: Language) => Promise<AudioBlob>;
+  onSpeakingChange?: (speaking: boolean) => void;
+}
+
+export interface SpeechQueue {
+  enqueue: (text: string, language: Language) => void;
+  stop: () => void;
+}
+
+const pickBrowserVoice = (languageCode: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const code = languageCode.toLowerCase();
+  return voices.find(v => v.lang.toLowerCase() === code)
+    ?? voices.find(v => v.lang.toLowerCase().startsWith(`${code}-`))
+    ?? voices.find(v => isSameLanguage(v.lang, languageCode));
+};
+
+const speakWithBrowser = ({ text, language }: SpeechItem): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (!('speechSynthesis' in window)) {
+      reject(new Error('Speech synthesis is not supported in this browser.'));
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = language.code;
+    const voice = pickBrowserVoice(language.code);
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    // "interrupted"/"canceled" come from stop() and are not failures.
+    utterance.onerror = (e) => e.error === 'interrupted' || e.error === 'canceled' ? resolve() : reject(new Error(e.error));
+    window.speechSynthesis.speak(utterance);
+  });
+
+// Plays translations one after another so consecutive segments never overlap.
+export const createSpeechQueue = ({ synthesize, onSpeakingChange }: SpeechQueueOptions = {}): SpeechQueue => {
+  const items: SpeechItem[] = [];
+  let playing = false;
+  let audioContext: AudioContext | null = null;
+  let currentSource: AudioBufferSourceNode | null = null;
+  // Incremented by stop() so an in-flight synthesis doesn't start playing afterwards.
+  let generation = 0;
+
+  const playBlob = async (blob: AudioBlob, run: number): Promise<void> => {
+    if (!audioContext || audioContext.state === 'closed') {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      audioContext = new AudioContext();
+    }
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    if (run !== generation) return;
+    const buffer = pcm16ToAudioBuffer(decode(blob.data), audioContext, sampleRateFromMimeType(blob.mimeType, DEFAULT_SPEECH_SAMPLE_RATE));
+    await new Promise<void>(resolve => {
+      const source = audioContext!.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContext!.destination);
+      source.onended = () => {
+        if (currentSource === source) currentSource = null;
+        resolve();
+      };
+      currentSource = source;
+      source.start();
+    });
+  };
+
+  const speak = async (item: SpeechItem, run: number) => {
+    if (synthesize) {
+      try {
+        const blob = await synthesize(item.text, item.language);
+        if (run === generation) await playBlob(blob, run);
+        return;
+      } catch (e) {
+        console.error('Speech synthesis failed, using the browser voice instead:', e);
+      }
+    }
+    if (run === generation) await speakWithBrowser(item);
+  };
+
+  const drain = async () => {
+    if (playing) return;
+    playing = true;
+    onSpeakingChange?.(true);
+    const run = generation;
+    while (items.length > 0 && run === generation) {
+      const item = items.shift()!;
+      try {
+        await speak(item, run);
+      } catch (e) {
+        console.error('Speech playback error:', e);
+      }
+    }
+    playing = false;
+    onSpeakingChange?.(false);
+    // Items queued after a stop() start a fresh run.
+    if (items.length > 0) drain();
+  };
+
+  const enqueue = (text: string, language: Language) => {
+    if (!text.trim()) return;
+    items.push({ text, language });
+    drain();
+  };
+
+  const stop = () => {
+    generation++;
+    items.length = 0;
+    currentSource?.stop();
+    currentSource = null;
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+  };
+
+  return { enqueue, stop };
+};
@@ -0,0 +1,22 @@
+import { TranslationStyle } from '../types';
+import { sanitizeStyleProfiles } from '../utils/translationStyle';
+
+const STYLE_PROFILES_KEY = 'styleProfiles';
+
+export const loadStyleProfiles = (): Record<string, TranslationStyle> => {
+  try {
+    const stored = localStorage.getItem(STYLE_PROFILES_KEY);
+    return sanitizeStyleProfiles(stored ? JSON.parse(stored) : {});
+  } catch (e) {
+    console.error("Failed to load style profiles from localStorage", e);
+    return {};
+  }
+};
+
+export const saveStyleProfiles = (profiles: Record<string, TranslationStyle>) => {
+  try {
+    localStorage.setItem(STYLE_PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Failed to save style profiles to localStorage", e);
+  }
+};
@@ -0,0 +1,21 @@
+import { UsageBudget, UsageSummary } from '../types';
+import { API_BASE_URL, apiError } from './providers/proxyProvider';
+
+// Usage is metered by the API server, which sees every call to Gemini.
+const request = async (path: string, init?: RequestInit): Promise<UsageSummary> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, init);
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw apiError(payload.error || `The API server answered with status ${response.status}.`, response.status);
+  }
+  return payload as UsageSummary;
+};
+
+export const fetchUsage = (): Promise<UsageSummary> => request('/usage');
+
+export const saveUsageBudget = (budget: UsageBudget): Promise<UsageSummary> =>
+  request('/usage/budget', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(budget),
+  });
@@ -0,0 +1,44 @@
+import { AudioBlob } from '../types';
+import { pcmBlobMs } from '../utils/audio';
+
+// Audio kept from just before the gate opens, so the first syllable of an
+// utterance is not lost to the detection delay.
+const PRE_ROLL_MS = 300;
+
+interface VoiceGateOptions {
+  send: (blob: AudioBlob) => void;
+  // Called each time the gate closes, i.e. at the end of every utterance.
+  endStream: () => void;
+}
+
+export interface VoiceGate {
+  push: (blob: AudioBlob, open: boolean) => void;
+}
+
+// Forwards captured audio only while `open`, trimming the silence between utterances.
+export const createVoiceGate = ({ send, endStream }: VoiceGateOptions): VoiceGate => {
+  let preRoll: AudioBlob[] = [];
+  let isOpen = false;
+
+  return {
+    push: (blob, open) => {
+      if (open) {
+        if (!isOpen) {
+          preRoll.forEach(send);
+          preRoll = [];
+          isOpen = true;
+        }
+        send(blob);
+        return;
+      }
+      if (isOpen) {
+        isOpen = false;
+        endStream();
+      }
+      preRoll.push(blob);
+      while (preRoll.length > 1 && preRoll.slice(1).reduce((ms, b) => ms + pcmBlobMs(b), 0) >= PRE_ROLL_MS) {
+        preRoll.shift();
+      }
+    },
+  };
+};
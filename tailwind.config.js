@@ -0,0 +1,6 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './{components,services,utils}/**/*.{ts,tsx}'],
+  // Follows the `dark` class that index.html sets from the saved theme.
+  darkMode: 'class',
+};
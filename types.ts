@@ -8,15 +8,257 @@ export enum RecordingState {
   ERROR = 'ERROR',
 }
 
+// How the microphone is driven: 'toggle' records a single utterance between
+// clicks; 'hands-free' and 'push-to-talk' keep the session open across
+// utterances, delimited by voice activity or by holding a key or button.
+export type CaptureMode = 'toggle' | 'hands-free' | 'push-to-talk';
+
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  // Keyed by target language code.
+  translations?: Record<string, string>;
+  // Diarization id from transcription, e.g. "1"; see `speakerName` for display.
+  speaker?: string;
+}
+
 export interface HistoryEntry {
   id: string;
-  timestamp: string;
+  // Epoch milliseconds.
+  createdAt: number;
   transcribedText: string;
+  // The first (primary) translation, duplicated from `translations`.
   translatedText: string;
+  // Language code, e.g. "es".
   targetLanguage: string;
+  // Detected or user-selected language of the original text.
+  sourceLanguage?: string;
+  // Every translation of this utterance keyed by language code. Entries saved
+  // before multi-language support only have the primary translation.
+  translations?: Record<string, string>;
+  segments?: TranscriptSegment[];
+  // Names given to the speakers in `segments`, keyed by speaker id.
+  speakers?: Record<string, string>;
+  // The style profiles the translations were made with, keyed by language
+  // code; languages translated without one are left out.
+  styles?: Record<string, TranslationStyle>;
+  // Present on entries saved from conversation mode; `translations` then holds
+  // the whole conversation rendered in each of the two languages.
+  conversation?: Conversation;
+  // Epoch milliseconds of the latest edit, if the entry has been revised.
+  updatedAt?: number;
+  // Earlier versions of an edited and re-translated entry, oldest first.
+  revisions?: HistoryRevision[];
+}
+
+export type HistoryRevision = Pick<HistoryEntry, 'transcribedText' | 'translatedText' | 'targetLanguage' | 'sourceLanguage' | 'translations' | 'segments' | 'speakers' | 'styles' | 'conversation'> & {
+  // When this version was saved.
+  savedAt: number;
+};
+
+// A recording made without a connection, waiting to be transcribed and
+// translated. 'processing' jobs found at startup were interrupted and are
+// treated as pending again.
+export type CaptureJobStatus = 'pending' | 'processing' | 'failed';
+
+export interface CaptureJob {
+  id: string;
+  // Epoch milliseconds; also used for the history entry the job becomes.
+  createdAt: number;
+  audio: Blob;
+  durationMs: number;
+  // The language settings when the recording was made.
+  sourceLanguage: string;
+  targetLanguages: string[];
+  styles?: Record<string, TranslationStyle>;
+  status: CaptureJobStatus;
+  // Why the last attempt failed.
+  error?: string;
+  attempts: number;
+}
+
+// Where a batch-uploaded file is. 'transcribing' and 'translating' jobs found
+// at startup were interrupted and are queued again.
+export type BatchJobStatus = 'queued' | 'transcribing' | 'translating' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  // Epoch milliseconds; also the order files are processed in.
+  createdAt: number;
+  fileName: string;
+  audio: Blob;
+  // The language settings when the file was added.
+  sourceLanguage: string;
+  targetLanguages: string[];
+  styles?: Record<string, TranslationStyle>;
+  status: BatchJobStatus;
+  error?: string;
+  // The history entry a finished job was saved as.
+  historyEntryId?: string;
+}
+
+// Speaker A talks in the first language of the pair, speaker B in the second.
+export type ConversationSpeaker = 'a' | 'b';
+
+export interface ConversationTurn {
+  speaker: ConversationSpeaker;
+  text: string;
+  // Into the other speaker's language; empty if the translation failed.
+  translatedText: string;
+}
+
+export interface Conversation {
+  languages: [string, string];
+  turns: ConversationTurn[];
+}
+
+// A turn while the conversation is running: the speaker is unknown until
+// detection finishes and the translation may still be in flight.
+export interface LiveConversationTurn {
+  id: string;
+  speaker: ConversationSpeaker | null;
+  text: string;
+  translation: TranslationResult;
+}
+
+// 'skipped' marks a target that is the same language as the source.
+export type TranslationStatus = 'pending' | 'done' | 'error' | 'skipped';
+
+export interface TranslationResult {
+  status: TranslationStatus;
+  text: string;
+  error?: string;
+  // Glossary terms found in the source whose approved rendering is missing from `text`.
+  glossaryMisses?: GlossaryTerm[];
+  // The model's remarks on the translation; see `TranslationReply`.
+  notes?: string;
+}
+
+export interface GlossaryTerm {
+  source: string;
+  // Equal to `source` for terms that must not be translated.
+  target: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  // A language code, or AUTO_DETECT to apply regardless of the source language.
+  sourceLanguage: string;
+  targetLanguage: string;
+  terms: GlossaryTerm[];
 }
 
 export interface Language {
   code: string;
   name: string;
 }
+
+export interface AudioBlob {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  onTranscription: (text: string) => void;
+  onTurnComplete: () => void;
+  onError: (error: Error) => void;
+  // `error` is set when the connection ended abnormally.
+  onClose: (error?: Error) => void;
+  // Reported while a dropped connection is being re-established.
+  onReconnecting?: (attempt: number) => void;
+  onReconnected?: () => void;
+}
+
+export interface LiveSessionHandle {
+  sendAudio: (blob: AudioBlob) => void;
+  // Tells the server no audio follows for now, so it can end the turn
+  // without being sent silence. Sending audio again reopens the stream.
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+// Forms of address for languages that distinguish them, e.g. vous/tu or Sie/du.
+export type Formality = 'formal' | 'informal';
+
+export type Register = 'casual' | 'business' | 'medical' | 'legal' | 'technical';
+
+// How translations into one language should read. Fields left unset are up to the model.
+export interface TranslationStyle {
+  formality?: Formality;
+  register?: Register;
+}
+
+export interface TranslateOptions {
+  glossary?: GlossaryTerm[];
+  style?: TranslationStyle;
+}
+
+// A translation as the model returns it, checked by `parseTranslationReply`.
+export interface TranslationReply {
+  translation: string;
+  // The language the model found the text to be in, as a language code.
+  detectedSourceLanguage?: string;
+  // Remarks on the translation, e.g. an ambiguity, kept out of `translation`.
+  notes?: string;
+}
+
+// Use of the paid API, reported by the provider as it happens. Events of a
+// live session carry its id in `session`.
+export type UsageEvent =
+  // A call's tokens, or for a live session, what the model reported using for a response.
+  | { kind: 'tokens'; model: string; inputTokens: number; outputTokens: number; session?: string }
+  // Audio streamed to a live session.
+  | { kind: 'audio'; model: string; seconds: number; session?: string };
+
+export interface UsageTotals {
+  // Text, transcription and speech calls; live sessions are counted in `audioSeconds` and their tokens.
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  // Estimated from list prices, in US dollars.
+  cost: number;
+}
+
+// Spending limits in US dollars; a limit that is not set does not apply.
+export interface UsageBudget {
+  dailyLimit?: number;
+  monthlyLimit?: number;
+  // The share of a limit, e.g. 0.8, from which the app warns.
+  warnAt: number;
+}
+
+// 'blocked' once a limit is reached: new requests are refused until the next day or month.
+export type BudgetStatus = 'ok' | 'warning' | 'blocked';
+
+export interface LiveSessionUsage {
+  id: string;
+  startedAt: number;
+  totals: UsageTotals;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  // The most recent live sessions, newest first.
+  sessions: LiveSessionUsage[];
+  budget: UsageBudget;
+  status: BudgetStatus;
+}
+
+export interface TranslationProvider {
+  id: 'gemini' | 'mock';
+  name: string;
+  transcribeAudio: (audio: AudioBlob) => Promise<TranscriptSegment[]>;
+  // `source` is omitted when the input language is unknown.
+  translateText: (text: string, language: Language, source?: Language, options?: TranslateOptions) => Promise<TranslationReply>;
+  translateSegments: (texts: string[], language: Language, source?: Language, options?: TranslateOptions) => Promise<string[]>;
+  // Resolves with a language code, e.g. "fr".
+  detectLanguage: (text: string) => Promise<string>;
+  // Optional; without it translations are read aloud with the browser's own voices.
+  synthesizeSpeech?: (text: string, language: Language) => Promise<AudioBlob>;
+  connectLive: (callbacks: LiveSessionCallbacks) => Promise<LiveSessionHandle>;
+}
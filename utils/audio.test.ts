@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createPcmBlob, createResampler, decode, floatToPcm16, measureLevel, pcmBlobMs } from './audio';
+
+const sine = (frequency: number, rate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / rate));
+
+// Feeds `input` to a fresh resampler in chunks of the given sizes, cycling through them.
+const resampleInChunks = (fromRate: number, toRate: number, input: Float32Array, sizes: number[]) => {
+  const resample = createResampler(fromRate, toRate);
+  const outputs: number[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length];
+    outputs.push(...resample(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  return Float32Array.from(outputs);
+};
+
+describe('createResampler', () => {
+  it('turns 48 kHz into a third as many samples at 16 kHz', () => {
+    expect(createResampler(48000, 16000)(new Float32Array(4800))).toHaveLength(1600);
+  });
+
+  it('keeps the output length across chunk boundaries', () => {
+    const input = sine(440, 48000, 48000);
+    // 128 is the AudioWorklet render quantum; the odd sizes leave samples carried over.
+    expect(resampleInChunks(48000, 16000, input, [128])).toHaveLength(16000);
+    expect(resampleInChunks(48000, 16000, input, [100, 37, 1, 512])).toHaveLength(16000);
+    expect(resampleInChunks(44100, 16000, sine(440, 44100, 44100), [128]).length).toBeCloseTo(16000, -1);
+  });
+
+  it('gives the same samples however the input is chunked', () => {
+    const input = sine(440, 48000, 4800);
+    const whole = createResampler(48000, 16000)(input);
+    const chunked = resampleInChunks(48000, 16000, input, [7, 128, 50]);
+    expect(chunked).toHaveLength(whole.length);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('averages each group of samples when downsampling by a whole ratio', () => {
+    expect(Array.from(createResampler(48000, 16000)(Float32Array.from([0, 0.3, 0.6, 1, 1, 1])))).toEqual([
+      expect.closeTo(0.3, 6),
+      1,
+    ]);
+  });
+
+  it('keeps a tone well below the new Nyquist frequency', () => {
+    const output = createResampler(48000, 16000)(sine(1000, 48000, 48000));
+    const { peak } = measureLevel(output.subarray(100));
+    expect(peak).toBeGreaterThan(0.48);
+    expect(peak).toBeLessThanOrEqual(0.5);
+  });
+
+  it('interpolates when upsampling', () => {
+    const output = resampleInChunks(8000, 16000, Float32Array.from([0, 1, 0, -1, 0]), [2, 3]);
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -0.5]);
+  });
+});
+
+describe('floatToPcm16', () => {
+  it('maps full scale to the ends of the 16-bit range', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clamps values beyond full scale instead of wrapping around', () => {
+    expect(Array.from(floatToPcm16(Float32Array.from([1.0001, 2, -1.5, Infinity, -Infinity])))).toEqual([32767, 32767, -32768, 32767, -32768]);
+  });
+});
+
+describe('pcmBlobMs', () => {
+  it('measures the duration of 16 kHz blobs of any length', () => {
+    expect(pcmBlobMs(createPcmBlob(new Float32Array(16000)))).toBe(1000);
+    expect(pcmBlobMs(createPcmBlob(new Float32Array(1600)))).toBe(100);
+    expect(pcmBlobMs(createPcmBlob(new Float32Array(1601)))).toBe(100.0625);
+    expect(pcmBlobMs(createPcmBlob(new Float32Array(1602)))).toBe(100.125);
+  });
+
+  it('encodes little-endian 16-bit samples', () => {
+    expect(Array.from(decode(createPcmBlob(Float32Array.from([1, -1])).data))).toEqual([0xff, 0x7f, 0x00, 0x80]);
+  });
+});
@@ -0,0 +1,178 @@
+import { AudioBlob } from '../types';
+
+export function decode(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Reads the rate from mime types such as "audio/pcm;rate=24000" or "audio/L16;codec=pcm;rate=24000".
+export const sampleRateFromMimeType = (mimeType: string, fallback: number): number => {
+  const match = mimeType.match(/rate=(\d+)/);
+  return match ? Number(match[1]) : fallback;
+};
+
+// Converts little-endian 16-bit mono PCM into a playable buffer.
+export function pcm16ToAudioBuffer(bytes: Uint8Array, context: BaseAudioContext, sampleRate: number): AudioBuffer {
+  const samples = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    channel[i] = samples[i] / 32768;
+  }
+  return buffer;
+}
+
+// The base64 content of a file, for sending it as it is.
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => {
+      const result = reader.result as string;
+      // remove "data:audio/mpeg;base64," prefix
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+
+export function encode(bytes: Uint8Array): string {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// Wraps mono samples in a 16-bit PCM WAV container.
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  const pcm = floatToPcm16(samples);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(44 + i * 2, pcm[i], true);
+  }
+  return bytes;
+}
+
+// Decodes an encoded audio file and renders it down to mono at `sampleRate`.
+export async function decodeToMono(data: ArrayBuffer, sampleRate: number): Promise<Float32Array> {
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(data);
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * sampleRate), sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    context.close();
+  }
+}
+
+// Converts float samples to 16-bit PCM, clamping to [-1, 1] first so that
+// full-scale input saturates instead of wrapping around.
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return pcm;
+}
+
+// Duration of a base64-encoded 16 kHz 16-bit mono blob, as made by `createPcmBlob`.
+export const pcmBlobMs = (blob: AudioBlob): number => {
+  const padding = blob.data.endsWith('==') ? 2 : blob.data.endsWith('=') ? 1 : 0;
+  return ((blob.data.length * 3 / 4 - padding) / 2 / 16000) * 1000;
+};
+
+// Wraps 16 kHz mono samples for the live session.
+export function createPcmBlob(samples: Float32Array): AudioBlob {
+  const pcm = floatToPcm16(samples);
+  return {
+    data: encode(new Uint8Array(pcm.buffer)),
+    mimeType: 'audio/pcm;rate=16000',
+  };
+}
+
+// Returns a stateful resampler for a stream of chunks. Downsampling averages
+// the input each output sample covers. That is a crude low-pass filter: it
+// damps content above the new Nyquist frequency but lets some of it alias,
+// which speech recognition tolerates. Upsampling interpolates linearly. Input
+// that does not yet complete an output sample is carried into the next call.
+export function createResampler(fromRate: number, toRate: number): (input: Float32Array) => Float32Array {
+  const step = fromRate / toRate;
+  let carried = new Float32Array(0);
+  let position = 0;
+
+  return (input: Float32Array) => {
+    const samples = new Float32Array(carried.length + input.length);
+    samples.set(carried);
+    samples.set(input, carried.length);
+    const output: number[] = [];
+
+    if (step >= 1) {
+      while (position + step <= samples.length) {
+        const start = Math.floor(position);
+        const end = Math.max(start + 1, Math.floor(position + step));
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += samples[i];
+        output.push(sum / (end - start));
+        position += step;
+      }
+    } else {
+      while (position + 1 < samples.length) {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        output.push(samples[index] + (samples[index + 1] - samples[index]) * fraction);
+        position += step;
+      }
+    }
+
+    const consumed = Math.min(Math.floor(position), samples.length);
+    carried = samples.slice(consumed);
+    position -= consumed;
+    return Float32Array.from(output);
+  };
+}
+
+export interface AudioLevel {
+  // Root mean square and peak of the latest block, both in [0, 1].
+  rms: number;
+  peak: number;
+}
+
+export function measureLevel(samples: Float32Array): AudioLevel {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    sum += magnitude * magnitude;
+    if (magnitude > peak) peak = magnitude;
+  }
+  return { rms: samples.length ? Math.sqrt(sum / samples.length) : 0, peak: Math.min(peak, 1) };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChunkSegments, planChunks, trimRepeatedWords } from './chunking';
+import { TranscriptSegment } from '../types';
+
+describe('planChunks', () => {
+  it('keeps a short recording in one chunk', () => {
+    expect(planChunks(20, 30, 5)).toEqual([{ start: 0, end: 20 }]);
+  });
+
+  it('overlaps consecutive chunks and ends at the end of the recording', () => {
+    expect(planChunks(100, 30, 5)).toEqual([
+      { start: 0, end: 30 },
+      { start: 25, end: 55 },
+      { start: 50, end: 80 },
+      { start: 75, end: 100 },
+    ]);
+  });
+
+  it('butts chunks together without an overlap', () => {
+    expect(planChunks(60, 30, 0)).toEqual([{ start: 0, end: 30 }, { start: 30, end: 60 }]);
+  });
+
+  it('always moves forward', () => {
+    expect(planChunks(3, 2, 5)).toEqual([{ start: 0, end: 2 }, { start: 1, end: 3 }]);
+  });
+});
+
+describe('trimRepeatedWords', () => {
+  it('drops the words the next chunk repeats, ignoring case and punctuation', () => {
+    expect(trimRepeatedWords('Today we talk about the weather in', 'Weather, in Paris and London.')).toBe('Paris and London.');
+  });
+
+  it('keeps a single shared word', () => {
+    expect(trimRepeatedWords('That is all', 'all right then')).toBe('all right then');
+  });
+
+  it('keeps words repeated within the chunk itself', () => {
+    expect(trimRepeatedWords('It was very', 'very very good')).toBe('very very good');
+    expect(trimRepeatedWords('I said no', 'no no no, never.')).toBe('no no no, never.');
+    expect(trimRepeatedWords('the end of the line', 'of the line of the line again')).toBe('of the line again');
+  });
+
+  it('leaves text without a repeat alone', () => {
+    expect(trimRepeatedWords('', 'Hello there')).toBe('Hello there');
+    expect(trimRepeatedWords('Hello there', 'General Kenobi')).toBe('General Kenobi');
+  });
+});
+
+describe('mergeChunkSegments', () => {
+  const first: TranscriptSegment[] = [
+    { start: 0, end: 12, text: 'Welcome to the show.', speaker: '1' },
+    { start: 12, end: 26, text: 'Today we talk about the weather in', speaker: '2' },
+    { start: 28, end: 30, text: 'Paris and', speaker: '2' },
+  ];
+
+  it('takes the first chunk as it is', () => {
+    expect(mergeChunkSegments([], first, { start: 0, end: 0 })).toBe(first);
+  });
+
+  it('joins chunks at the overlap without duplicated or dropped words', () => {
+    // The second chunk numbers its speakers from 1 again.
+    const second: TranscriptSegment[] = [
+      { start: 25, end: 26, text: 'the weather', speaker: '1' },
+      { start: 25.5, end: 29, text: 'weather in Paris and London.', speaker: '1' },
+      { start: 29, end: 35, text: 'Thanks, Sam.', speaker: '2' },
+    ];
+    expect(mergeChunkSegments(first, second, { start: 25, end: 30 })).toEqual([
+      first[0],
+      first[1],
+      { start: 26, end: 29, text: 'Paris and London.', speaker: '2' },
+      { start: 29, end: 35, text: 'Thanks, Sam.', speaker: '3' },
+    ]);
+  });
+
+  it('drops a segment the next chunk only repeats', () => {
+    const second: TranscriptSegment[] = [
+      { start: 25, end: 28, text: 'about the weather in', speaker: '1' },
+      { start: 28, end: 33, text: 'Lyon.', speaker: '1' },
+    ];
+    expect(mergeChunkSegments(first, second, { start: 25, end: 30 }).slice(2)).toEqual([
+      { start: 28, end: 33, text: 'Lyon.', speaker: '2' },
+    ]);
+  });
+
+  it('appends chunks that do not overlap, numbering their speakers after the earlier ones', () => {
+    const previous: TranscriptSegment[] = [
+      { start: 0, end: 20, text: 'That is all', speaker: '1' },
+      { start: 20, end: 30, text: 'for today.', speaker: '2' },
+    ];
+    const next: TranscriptSegment[] = [
+      { start: 30, end: 34, text: 'for today. Goodbye.', speaker: '1' },
+      { start: 34, end: 40, text: 'Bye!', speaker: '2' },
+    ];
+    expect(mergeChunkSegments(previous, next, { start: 30, end: 30 })).toEqual([
+      ...previous,
+      { start: 30, end: 34, text: 'Goodbye.', speaker: '3' },
+      { start: 34, end: 40, text: 'Bye!', speaker: '4' },
+    ]);
+  });
+
+  it('carries a speaker across several chunks', () => {
+    const chunks: TranscriptSegment[][] = [
+      [{ start: 0, end: 28, text: 'One two three four', speaker: '1' }],
+      [{ start: 25, end: 53, text: 'three four five six seven', speaker: '1' }],
+      [{ start: 50, end: 60, text: 'six seven eight', speaker: '1' }],
+    ];
+    const merged = chunks.reduce((all, chunk, i) => mergeChunkSegments(all, chunk, { start: i * 25, end: i * 25 + 5 }), [] as TranscriptSegment[]);
+    expect(merged.map(segment => segment.speaker)).toEqual(['1', '1', '1']);
+    expect(merged.map(segment => segment.text).join(' ')).toBe('One two three four five six seven eight');
+  });
+
+  it('leaves segments without a speaker unlabelled', () => {
+    const merged = mergeChunkSegments([{ start: 0, end: 10, text: 'Hello there' }], [{ start: 12, end: 15, text: 'friend' }], { start: 10, end: 12 });
+    expect(merged[1]).toEqual({ start: 12, end: 15, text: 'friend' });
+  });
+});
@@ -0,0 +1,102 @@
+import { TranscriptSegment } from '../types';
+
+// A slice of a recording, in seconds from its beginning.
+export interface AudioChunk {
+  start: number;
+  end: number;
+}
+
+// Repeats shorter than this are left alone: a single shared word at a
+// boundary is as likely to be said twice as to be transcribed twice.
+const MIN_REPEATED_WORDS = 2;
+const MAX_REPEATED_WORDS = 30;
+
+// Consecutive chunks share `overlapSeconds`, so a word cut off at the end of
+// one chunk is heard whole at the start of the next.
+export const planChunks = (durationSeconds: number, chunkSeconds: number, overlapSeconds: number): AudioChunk[] => {
+  if (durationSeconds <= chunkSeconds) return [{ start: 0, end: durationSeconds }];
+  const step = Math.max(chunkSeconds - overlapSeconds, 1);
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; ; start += step) {
+    const end = Math.min(durationSeconds, start + chunkSeconds);
+    chunks.push({ start, end });
+    if (end >= durationSeconds) return chunks;
+  }
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Drops the words at the start of `next` that repeat the end of `previous`.
+export const trimRepeatedWords = (previous: string, next: string): string => {
+  const previousWords = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextRaw = next.split(/\s+/).filter(Boolean);
+  const nextWords = nextRaw.map(normalizeWord);
+  const longest = Math.min(MAX_REPEATED_WORDS, previousWords.length, nextWords.length);
+  for (let count = longest; count >= MIN_REPEATED_WORDS; count--) {
+    const tail = previousWords.slice(-count);
+    if (tail.every((word, i) => word === nextWords[i])) {
+      return nextRaw.slice(count).join(' ');
+    }
+  }
+  return next;
+};
+
+const overlapDuration = (a: TranscriptSegment, b: TranscriptSegment) =>
+  Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+// Each chunk numbers its speakers from 1 again. Speakers heard in the overlap
+// are matched to whoever the earlier chunk heard at the same time; the rest
+// are new to the recording and get the next free numbers.
+const mapSpeakers = (kept: TranscriptSegment[], incoming: TranscriptSegment[], overlap: AudioChunk): Map<string, string> => {
+  const shared = new Map<string, number>();
+  for (const next of incoming) {
+    if (!next.speaker || next.start >= overlap.end) continue;
+    for (const previous of kept) {
+      const seconds = overlapDuration(previous, next);
+      if (!previous.speaker || seconds === 0) continue;
+      const key = `${next.speaker}\n${previous.speaker}`;
+      shared.set(key, (shared.get(key) ?? 0) + seconds);
+    }
+  }
+  // Strongest matches first, each speaker on either side matched at most once.
+  const mapping = new Map<string, string>();
+  const matched = new Set<string>();
+  for (const [key] of [...shared].sort((a, b) => b[1] - a[1])) {
+    const [speaker, previousSpeaker] = key.split('\n');
+    if (mapping.has(speaker) || matched.has(previousSpeaker)) continue;
+    mapping.set(speaker, previousSpeaker);
+    matched.add(previousSpeaker);
+  }
+  let nextId = Math.max(0, ...kept.map(segment => Number(segment.speaker) || 0)) + 1;
+  for (const segment of incoming) {
+    if (segment.speaker && !mapping.has(segment.speaker)) mapping.set(segment.speaker, String(nextId++));
+  }
+  return mapping;
+};
+
+// Merges the transcript of a new chunk (with times already made absolute)
+// into what earlier chunks produced. The earlier transcript is trusted up to
+// the middle of the shared overlap, the new one from the end of the last
+// segment kept there; words repeated across that seam are dropped.
+export const mergeChunkSegments = (previous: TranscriptSegment[], incoming: TranscriptSegment[], overlap: AudioChunk): TranscriptSegment[] => {
+  if (previous.length === 0) return incoming;
+  const middle = (overlap.start + overlap.end) / 2;
+  const kept = previous.filter(segment => segment.start < middle);
+  const last = kept[kept.length - 1];
+  const cut = last ? Math.max(last.end, overlap.start) : overlap.start;
+  const speakers = mapSpeakers(kept, incoming, overlap);
+
+  const added: TranscriptSegment[] = [];
+  for (const segment of incoming) {
+    if (segment.end <= cut) continue;
+    const text = added.length === 0 && last ? trimRepeatedWords(last.text, segment.text) : segment.text;
+    if (!text) continue;
+    added.push({
+      ...segment,
+      start: Math.max(segment.start, cut),
+      text,
+      ...(segment.speaker ? { speaker: speakers.get(segment.speaker) } : {}),
+    });
+  }
+  return [...kept, ...added];
+};
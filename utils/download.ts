@@ -0,0 +1,10 @@
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const baseFileName = (fileName: string): string => fileName.replace(/\.[^./\\]+$/, '') || 'transcript';
@@ -0,0 +1,45 @@
+export type ErrorCategory = 'auth' | 'quota' | 'budget' | 'network' | 'format' | 'unknown';
+
+const GUIDANCE: Record<ErrorCategory, string> = {
+  auth: 'The API key was rejected. Check GEMINI_API_KEY in .env.local and that the key is enabled for the Gemini API.',
+  quota: 'The request quota or rate limit was reached. Wait a minute and try again, or check your plan limits.',
+  budget: 'The usage budget has been reached, so new requests are blocked. Raise the limit under Usage, or wait for the next day or month.',
+  network: 'The connection to the translation service failed. Check your network connection and try again.',
+  format: 'This audio format is not supported. Try converting the file to MP3, WAV or M4A.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+const messageOf = (error: unknown): string => (error instanceof Error ? error.message : String(error ?? ''));
+
+// Provider SDK errors carry the HTTP status; other errors are recognized by their message.
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const categorizeError = (error: unknown): ErrorCategory => {
+  const status = statusOf(error);
+  const message = messageOf(error).toLowerCase();
+  if (status === 401 || status === 403 || /api key|permission_denied|unauthenticated|unauthorized/.test(message)) return 'auth';
+  if (status === 402 || /usage budget/.test(message)) return 'budget';
+  if (status === 429 || /quota|rate limit|resource_exhausted|too many requests/.test(message)) return 'quota';
+  if (/unsupported|mime type|unable to decode|could not decode|invalid audio/.test(message)
+    || (error instanceof DOMException && error.name === 'EncodingError')) return 'format';
+  if ((status !== undefined && status >= 500)
+    || /network|failed to fetch|timed? ?out|unavailable|connection|socket|offline/.test(message)) return 'network';
+  return 'unknown';
+};
+
+// Worth retrying: the same request may well succeed a little later.
+export const isTransientError = (error: unknown): boolean => {
+  const category = categorizeError(error);
+  return category === 'network' || category === 'quota';
+};
+
+// A user-facing explanation with what to do about it, e.g. "Translation failed. The API key was rejected. ..."
+export const describeError = (error: unknown, action?: string): string => {
+  const category = categorizeError(error);
+  // Unrecognized errors keep their own message; it is more useful than a generic one.
+  const detail = category === 'unknown' && messageOf(error) ? messageOf(error) : GUIDANCE[category];
+  return action ? `${action}. ${detail}` : detail;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { containsTerm, exportGlossaries, findGlossaryMisses, parseGlossaryFile, relevantTerms, splitByTerms } from './glossary';
+import { Glossary } from '../types';
+
+describe('containsTerm', () => {
+  it('matches whole words, ignoring case', () => {
+    expect(containsTerm('The Cat sat.', 'cat')).toBe(true);
+    expect(containsTerm('concatenate', 'cat')).toBe(false);
+    expect(containsTerm('Москвабад', 'Москва')).toBe(false);
+    expect(containsTerm('I write C++ daily', 'C++')).toBe(true);
+  });
+
+  it('matches terms in scripts written without spaces', () => {
+    expect(containsTerm('東京に行きます', '東京')).toBe(true);
+    expect(containsTerm('私は北京大学の学生です', '北京')).toBe(true);
+    expect(containsTerm('ไปกรุงเทพวันนี้', 'กรุงเทพ')).toBe(true);
+  });
+
+  it('matches terms next to text in another script', () => {
+    expect(containsTerm('EchoTranslateを使います', 'EchoTranslate')).toBe(true);
+    expect(containsTerm('新しいiPhoneが出た', 'iPhone')).toBe(true);
+    expect(containsTerm('Tokyo東京タワー', '東京')).toBe(true);
+    expect(containsTerm('EchoTranslateX を使います', 'EchoTranslate')).toBe(false);
+  });
+
+  it('ignores empty terms', () => {
+    expect(containsTerm('anything', '  ')).toBe(false);
+  });
+});
+
+describe('glossary checks', () => {
+  const terms = [{ source: '東京', target: 'Tokyo' }, { source: 'EchoTranslate', target: 'EchoTranslate' }, { source: 'cat', target: 'chat' }];
+
+  it('sends only the terms that occur in the text', () => {
+    expect(relevantTerms('EchoTranslateで東京を案内します', terms).map(term => term.source)).toEqual(['東京', 'EchoTranslate']);
+  });
+
+  it('reports terms the translation left out', () => {
+    expect(findGlossaryMisses('東京に行きます', 'I am going to Tokyo', terms)).toEqual([]);
+    expect(findGlossaryMisses('東京に行きます', 'I am going to the capital', terms)).toEqual([terms[0]]);
+  });
+
+  it('highlights matches in mixed text', () => {
+    expect(splitByTerms('EchoTranslateで東京へ', ['EchoTranslate', '東京'])).toEqual([
+      { text: 'EchoTranslate', highlighted: true },
+      { text: 'で', highlighted: false },
+      { text: '東京', highlighted: true },
+      { text: 'へ', highlighted: false },
+    ]);
+  });
+});
+
+describe('parseGlossaryFile', () => {
+  const glossary: Glossary = {
+    id: 'g1',
+    name: 'Places',
+    sourceLanguage: 'ja',
+    targetLanguage: 'en',
+    terms: [{ source: '東京', target: 'Tokyo' }],
+  };
+
+  it('reads its own export back', () => {
+    const result = parseGlossaryFile('glossaries.json', exportGlossaries([glossary]));
+    expect(result.kind).toBe('glossaries');
+    expect(result.kind === 'glossaries' && result.glossaries).toEqual([{ ...glossary, id: expect.any(String) }]);
+  });
+
+  it('reads terms from CSV, where an empty target means do not translate', () => {
+    expect(parseGlossaryFile('terms.csv', 'source,target\r\n東京,Tokyo\r\nEchoTranslate,\r\n')).toEqual({
+      kind: 'terms',
+      terms: [{ source: '東京', target: 'Tokyo' }, { source: 'EchoTranslate', target: 'EchoTranslate' }],
+    });
+  });
+
+  it('rejects glossary JSON it cannot use', () => {
+    const parse = (content: string) => () => parseGlossaryFile('glossaries.json', content);
+    expect(parse('{')).toThrow('The file is not valid JSON.');
+    expect(parse('null')).toThrow('not an EchoTranslate glossary export.');
+    expect(parse('{"format": "other", "glossaries": []}')).toThrow('not an EchoTranslate glossary export.');
+    expect(parse('[null]')).toThrow('Glossary 1 has no target language.');
+    expect(parse('[{"targetLanguage": 5, "terms": []}]')).toThrow('Glossary 1 has no target language.');
+    expect(parse('[{"targetLanguage": "en", "terms": {}}]')).toThrow('Glossary 1 has no term list.');
+    expect(parse('[{"targetLanguage": "en", "terms": ["cat"]}]')).toThrow('Glossary 1, term 1 has no source term.');
+    expect(parse('[{"targetLanguage": "en", "terms": [{"source": 3}]}]')).toThrow('Glossary 1, term 1 has no source term.');
+  });
+
+  it('rejects other file types', () => {
+    expect(() => parseGlossaryFile('terms.txt', '')).toThrow('Unsupported file type.');
+  });
+});
@@ -0,0 +1,146 @@
+import { Glossary, GlossaryTerm } from '../types';
+import { AUTO_DETECT } from '../constants';
+import { isSameLanguage } from './language';
+import { escapeCsvField, parseCsv } from './csv';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits of scripts that put spaces between words. Only these
+// mark word boundaries: Chinese, Japanese or Thai words run into their
+// neighbours, so a term in those scripts matches anywhere in the text.
+const SPACED_WORD_CHARACTER = '[\\p{Script=Latin}\\p{Script=Greek}\\p{Script=Cyrillic}\\p{Script=Armenian}\\p{Script=Georgian}\\p{Nd}]';
+const STARTS_SPACED_WORD = new RegExp(`^${SPACED_WORD_CHARACTER}`, 'u');
+const ENDS_SPACED_WORD = new RegExp(`${SPACED_WORD_CHARACTER}$`, 'u');
+
+// Whole-word, case-insensitive match. A boundary is only required where the
+// term and its neighbour are both word characters of a spaced script, so
+// "C++", "東京" in "東京に行きます" and "EchoTranslate" in "EchoTranslateを" match.
+const termPattern = (term: string): RegExp => {
+  const before = STARTS_SPACED_WORD.test(term) ? `(?<!${SPACED_WORD_CHARACTER})` : '';
+  const after = ENDS_SPACED_WORD.test(term) ? `(?!${SPACED_WORD_CHARACTER})` : '';
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, 'giu');
+};
+
+export const containsTerm = (text: string, term: string): boolean =>
+  term.trim() !== '' && termPattern(term.trim()).test(text);
+
+export const isDoNotTranslate = (term: GlossaryTerm): boolean => term.source === term.target;
+
+// Terms from every glossary for this language pair. A glossary for a base
+// language ("pt") also covers its regional variants; one for a variant only
+// covers that variant. Later glossaries don't override a source term an
+// earlier one already defines.
+export const glossaryTermsFor = (glossaries: Glossary[], targetCode: string, sourceCode?: string): GlossaryTerm[] => {
+  const terms = new Map<string, GlossaryTerm>();
+  glossaries
+    .filter(g => g.targetLanguage === targetCode || (!g.targetLanguage.includes('-') && isSameLanguage(g.targetLanguage, targetCode)))
+    .filter(g => g.sourceLanguage === AUTO_DETECT || (sourceCode !== undefined && isSameLanguage(g.sourceLanguage, sourceCode)))
+    .forEach(g => g.terms.forEach(term => {
+      const key = term.source.trim().toLowerCase();
+      if (key && !terms.has(key)) terms.set(key, term);
+    }));
+  return [...terms.values()];
+};
+
+// Only the terms that actually occur in the text are worth sending to the model.
+export const relevantTerms = (text: string, terms: GlossaryTerm[]): GlossaryTerm[] =>
+  terms.filter(term => containsTerm(text, term.source));
+
+export const findGlossaryMisses = (sourceText: string, translatedText: string, terms: GlossaryTerm[]): GlossaryTerm[] =>
+  relevantTerms(sourceText, terms).filter(term => !containsTerm(translatedText, term.target));
+
+// Splits text into plain and highlighted parts for rendering.
+export const splitByTerms = (text: string, terms: string[]): { text: string; highlighted: boolean }[] => {
+  const ranges: [number, number][] = [];
+  for (const term of terms.filter(t => t.trim())) {
+    for (const match of text.matchAll(termPattern(term.trim()))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start < position) continue;
+    if (start > position) parts.push({ text: text.slice(position, start), highlighted: false });
+    parts.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), highlighted: false });
+  return parts;
+};
+
+// --- Import / export ---
+
+const GLOSSARY_FORMAT_ID = 'echotranslate-glossaries';
+
+export const exportGlossaries = (glossaries: Glossary[]): string =>
+  JSON.stringify({ format: GLOSSARY_FORMAT_ID, version: 1, glossaries }, null, 2);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateTerms = (value: unknown, position: string): GlossaryTerm[] => {
+  if (!Array.isArray(value)) throw new Error(`${position} has no term list.`);
+  return value.map((term: unknown, i) => {
+    if (!isObject(term) || typeof term.source !== 'string' || !term.source.trim()) {
+      throw new Error(`${position}, term ${i + 1} has no source term.`);
+    }
+    const source = term.source.trim();
+    const target = typeof term.target === 'string' && term.target.trim() ? term.target.trim() : source;
+    return { source, target };
+  });
+};
+
+const parseGlossaryJson = (content: string): Glossary[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const glossaries = Array.isArray(data) ? data : isObject(data) && data.format === GLOSSARY_FORMAT_ID ? data.glossaries : null;
+  if (!Array.isArray(glossaries)) {
+    throw new Error('The JSON file is not an EchoTranslate glossary export.');
+  }
+  return glossaries.map((g: unknown, i) => {
+    const position = `Glossary ${i + 1}`;
+    if (!isObject(g) || typeof g.targetLanguage !== 'string' || !g.targetLanguage) {
+      throw new Error(`${position} has no target language.`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      name: typeof g.name === 'string' && g.name.trim() ? g.name.trim() : `Imported glossary ${i + 1}`,
+      sourceLanguage: typeof g.sourceLanguage === 'string' && g.sourceLanguage ? g.sourceLanguage : AUTO_DETECT,
+      targetLanguage: g.targetLanguage,
+      terms: validateTerms(g.terms, position),
+    };
+  });
+};
+
+export const exportGlossaryTermsCsv = (glossary: Glossary): string =>
+  ['source,target', ...glossary.terms.map(term => [term.source, term.target].map(escapeCsvField).join(','))].join('\r\n') + '\r\n';
+
+// A CSV holds the terms of one glossary as "source,target" rows; an empty target means "do not translate".
+const parseGlossaryCsv = (content: string): GlossaryTerm[] => {
+  const rows = parseCsv(content);
+  const [header] = rows;
+  const hasHeader = header && header[0]?.trim().toLowerCase() === 'source';
+  return validateTerms((hasHeader ? rows.slice(1) : rows).map(([source, target]) => ({ source, target })), 'The CSV file');
+};
+
+export type GlossaryImport = { kind: 'glossaries'; glossaries: Glossary[] } | { kind: 'terms'; terms: GlossaryTerm[] };
+
+export const parseGlossaryFile = (fileName: string, content: string): GlossaryImport => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return { kind: 'glossaries', glossaries: parseGlossaryJson(content) };
+  if (extension === 'csv') return { kind: 'terms', terms: parseGlossaryCsv(content) };
+  throw new Error('Unsupported file type. Choose a .json or .csv file.');
+};
+
+export const mergeTerms = (existing: GlossaryTerm[], added: GlossaryTerm[]): GlossaryTerm[] => {
+  const bySource = new Map(existing.map(term => [term.source.toLowerCase(), term]));
+  added.forEach(term => bySource.set(term.source.toLowerCase(), term));
+  return [...bySource.values()];
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { conversationToHistory, getEntryTranslations, restoreConversationTurns, reviseHistoryEntry, withTranslations } from './history';
+import { Conversation, HistoryEntry } from '../types';
+
+const conversation: Conversation = {
+  languages: ['en', 'es'],
+  turns: [
+    { speaker: 'a', text: 'Where is the station?', translatedText: '¿Dónde está la estación?' },
+    { speaker: 'b', text: 'Todo recto.', translatedText: '' },
+  ],
+};
+
+const saved: HistoryEntry = { ...conversationToHistory(conversation), id: 'c1', createdAt: 1000 };
+
+describe('getEntryTranslations', () => {
+  it('falls back to the primary translation of older entries', () => {
+    expect(getEntryTranslations({ id: 'e1', createdAt: 0, transcribedText: 'Hi', translatedText: 'Salut', targetLanguage: 'fr' })).toEqual({ fr: 'Salut' });
+  });
+
+  it('makes the first translation the primary one', () => {
+    expect(withTranslations({ de: 'Hallo', fr: 'Salut' })).toEqual({ targetLanguage: 'de', translatedText: 'Hallo', translations: { de: 'Hallo', fr: 'Salut' } });
+  });
+});
+
+describe('conversationToHistory', () => {
+  it('renders the exchange in each language, keeping untranslated turns as spoken', () => {
+    expect(saved.transcribedText).toBe('Where is the station?\nTodo recto.');
+    expect(saved.translations).toEqual({
+      en: 'Where is the station?\nTodo recto.',
+      es: '¿Dónde está la estación?\nTodo recto.',
+    });
+    expect(saved.conversation).toBe(conversation);
+  });
+});
+
+describe('restoreConversationTurns', () => {
+  it('turns a saved conversation back into settled turns', () => {
+    const turns = restoreConversationTurns(conversation);
+    expect(turns).toEqual([
+      { id: expect.any(String), speaker: 'a', text: 'Where is the station?', translation: { status: 'done', text: '¿Dónde está la estación?' } },
+      { id: expect.any(String), speaker: 'b', text: 'Todo recto.', translation: { status: 'error', text: '', error: 'It was not translated.' } },
+    ]);
+    expect(turns[0].id).not.toBe(turns[1].id);
+  });
+});
+
+describe('reviseHistoryEntry', () => {
+  it('keeps the entry and records the version it replaces', () => {
+    const entry: HistoryEntry = { id: 'e1', createdAt: 1000, transcribedText: 'Helo', translatedText: 'Salut', targetLanguage: 'fr', sourceLanguage: 'en' };
+    const revised = reviseHistoryEntry(entry, { transcribedText: 'Hello', ...withTranslations({ fr: 'Bonjour' }) });
+    expect(revised).toMatchObject({ id: 'e1', createdAt: 1000, transcribedText: 'Hello', translatedText: 'Bonjour' });
+    expect(revised.revisions).toEqual([{ transcribedText: 'Helo', translatedText: 'Salut', targetLanguage: 'fr', sourceLanguage: 'en', savedAt: 1000 }]);
+
+    const again = reviseHistoryEntry(revised, { transcribedText: 'Hello!', ...withTranslations({ fr: 'Bonjour !' }) });
+    expect(again.revisions!.map(revision => revision.transcribedText)).toEqual(['Helo', 'Hello']);
+    expect(again.revisions![1].savedAt).toBe(revised.updatedAt);
+  });
+
+  it('keeps the earlier turns of a conversation that was carried on', () => {
+    const restored = restoreConversationTurns(conversation);
+    const carriedOn: Conversation = {
+      languages: conversation.languages,
+      turns: [
+        ...restored.map(turn => ({ speaker: turn.speaker!, text: turn.text, translatedText: turn.translation.status === 'done' ? turn.translation.text : '' })),
+        { speaker: 'a', text: 'Thanks!', translatedText: '¡Gracias!' },
+      ],
+    };
+    const revised = reviseHistoryEntry(saved, conversationToHistory(carriedOn));
+    expect(revised.id).toBe('c1');
+    expect(revised.conversation!.turns.map(turn => turn.text)).toEqual(['Where is the station?', 'Todo recto.', 'Thanks!']);
+    expect(revised.revisions).toHaveLength(1);
+    expect(revised.revisions![0].conversation).toEqual(conversation);
+  });
+});
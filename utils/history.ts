@@ -0,0 +1,62 @@
+import { Conversation, ConversationSpeaker, HistoryEntry, HistoryRevision, LiveConversationTurn } from '../types';
+
+export const getEntryTranslations = (entry: HistoryEntry): Record<string, string> =>
+  entry.translations ?? { [entry.targetLanguage]: entry.translatedText };
+
+// The first translation becomes the entry's primary target language.
+export const withTranslations = (translations: Record<string, string>): Pick<HistoryEntry, 'targetLanguage' | 'translatedText' | 'translations'> => {
+  const [primary] = Object.keys(translations);
+  return {
+    targetLanguage: primary,
+    translatedText: translations[primary],
+    translations,
+  };
+};
+
+// A conversation is stored as one entry: the original turns as spoken, plus the
+// whole exchange rendered in each language of the pair, one turn per line. Turns
+// whose translation failed keep their original wording.
+export const conversationToHistory = (conversation: Conversation): Omit<HistoryEntry, 'id' | 'createdAt'> => {
+  const [first, second] = conversation.languages;
+  const render = (speaker: ConversationSpeaker) =>
+    conversation.turns.map(turn => turn.speaker === speaker ? turn.text : turn.translatedText || turn.text).join('\n');
+  return {
+    transcribedText: conversation.turns.map(turn => turn.text).join('\n'),
+    ...withTranslations({ [first]: render('a'), [second]: render('b') }),
+    conversation,
+  };
+};
+
+// Turns a saved conversation back into turns for the conversation view, so
+// recording can carry it on. Turns saved without a translation show as failed.
+export const restoreConversationTurns = (conversation: Conversation): LiveConversationTurn[] =>
+  conversation.turns.map(turn => ({
+    id: crypto.randomUUID(),
+    speaker: turn.speaker,
+    text: turn.text,
+    translation: turn.translatedText
+      ? { status: 'done', text: turn.translatedText }
+      : { status: 'error', text: '', error: 'It was not translated.' },
+  }));
+
+const toRevision = (entry: HistoryEntry): HistoryRevision => ({
+  transcribedText: entry.transcribedText,
+  translatedText: entry.translatedText,
+  targetLanguage: entry.targetLanguage,
+  ...(entry.sourceLanguage ? { sourceLanguage: entry.sourceLanguage } : {}),
+  ...(entry.translations ? { translations: entry.translations } : {}),
+  ...(entry.segments ? { segments: entry.segments } : {}),
+  ...(entry.speakers ? { speakers: entry.speakers } : {}),
+  ...(entry.styles ? { styles: entry.styles } : {}),
+  ...(entry.conversation ? { conversation: entry.conversation } : {}),
+  savedAt: entry.updatedAt ?? entry.createdAt,
+});
+
+// Replaces an entry's content with an edited version, keeping the current one as a revision.
+export const reviseHistoryEntry = (entry: HistoryEntry, content: Omit<HistoryEntry, 'id' | 'createdAt'>): HistoryEntry => ({
+  ...content,
+  id: entry.id,
+  createdAt: entry.createdAt,
+  updatedAt: Date.now(),
+  revisions: [...(entry.revisions ?? []), toRevision(entry)],
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { exportHistory, historyContentKey, parseHistoryFile } from './historyExchange';
+import { HistoryEntry } from '../types';
+
+const entry: HistoryEntry = {
+  id: 'e1',
+  createdAt: Date.UTC(2024, 0, 31, 15, 45),
+  transcribedText: 'Good morning.',
+  translatedText: 'Buenos días.',
+  targetLanguage: 'es',
+  sourceLanguage: 'en',
+  translations: { es: 'Buenos días.', fr: 'Bonjour.' },
+  segments: [{ start: 0, end: 1.2, text: 'Good morning.', speaker: '1', translations: { es: 'Buenos días.' } }],
+  speakers: { '1': 'Ana' },
+  styles: { es: { formality: 'formal' } },
+  updatedAt: Date.UTC(2024, 1, 1),
+  revisions: [{ transcribedText: 'Good mornin.', translatedText: 'Buenos.', targetLanguage: 'es', translations: { es: 'Buenos.' }, savedAt: Date.UTC(2024, 0, 31, 15, 45) }],
+};
+
+const conversationEntry: HistoryEntry = {
+  id: 'c1',
+  createdAt: Date.UTC(2024, 2, 1),
+  transcribedText: 'Hello\nHola',
+  translatedText: 'Hello\nHello',
+  targetLanguage: 'en',
+  translations: { en: 'Hello\nHello', es: 'Hola\nHola' },
+  conversation: { languages: ['en', 'es'], turns: [{ speaker: 'a', text: 'Hello', translatedText: 'Hola' }, { speaker: 'b', text: 'Hola', translatedText: 'Hello' }] },
+};
+
+const carriedOn: HistoryEntry = {
+  ...conversationEntry,
+  updatedAt: Date.UTC(2024, 2, 2),
+  revisions: [{ transcribedText: 'Hello', translatedText: 'Hello', targetLanguage: 'en', conversation: { languages: ['en', 'es'], turns: [conversationEntry.conversation!.turns[0]] }, savedAt: Date.UTC(2024, 2, 1) }],
+};
+
+const importJson = (data: unknown) => parseHistoryFile('history.json', JSON.stringify(data));
+
+describe('history JSON', () => {
+  it('reads its own export back unchanged', () => {
+    expect(parseHistoryFile('history.json', exportHistory([entry, conversationEntry, carriedOn], 'json'))).toEqual([entry, conversationEntry, carriedOn]);
+  });
+
+  it('accepts a bare array of entries and fills in what older exports lack', () => {
+    const [imported] = importJson([{ transcribedText: 'Hi', translatedText: 'Salut', targetLanguage: 'fr', createdAt: '2024-01-31T15:45:00Z' }]);
+    expect(imported).toEqual({
+      id: expect.any(String),
+      createdAt: Date.UTC(2024, 0, 31, 15, 45),
+      transcribedText: 'Hi',
+      translatedText: 'Salut',
+      targetLanguage: 'fr',
+      translations: { fr: 'Salut' },
+    });
+  });
+
+  it('keeps the primary translation first and drops unknown fields', () => {
+    const [imported] = importJson([{ ...entry, translations: { fr: 'Bonjour.', es: 'Hola.' }, extra: 1, styles: { es: { formality: 'loud' } } }]);
+    expect(Object.keys(imported.translations!)).toEqual(['es', 'fr']);
+    expect(imported.translations!.es).toBe('Buenos días.');
+    expect(imported).not.toHaveProperty('extra');
+    expect(imported).not.toHaveProperty('styles');
+  });
+
+  it('rejects files that are not a history export', () => {
+    expect(() => parseHistoryFile('history.json', '{')).toThrow('The file is not valid JSON.');
+    expect(() => importJson({ format: 'other', entries: [] })).toThrow('not an EchoTranslate history export.');
+    expect(() => importJson(null)).toThrow('not an EchoTranslate history export.');
+  });
+
+  it('rejects entries without their text or language', () => {
+    expect(() => importJson(['text'])).toThrow('Entry 1 is not an object.');
+    expect(() => importJson([{ ...entry, transcribedText: ' ' }])).toThrow('Entry 1 is missing its original or translated text.');
+    expect(() => importJson([{ ...entry, targetLanguage: 3 }])).toThrow('Entry 1 is missing its target language.');
+  });
+
+  it('rejects translations that are not text keyed by language', () => {
+    expect(() => importJson([{ ...entry, translations: ['Hola'] }])).toThrow('Entry 1 has translations that are not keyed by language.');
+    expect(() => importJson([{ ...entry, translations: 'Hola' }])).toThrow('Entry 1 has translations that are not keyed by language.');
+    expect(() => importJson([{ ...entry, translations: { fr: 2 } }])).toThrow('Entry 1 has a non-text translation for "fr".');
+  });
+
+  it('rejects malformed optional fields', () => {
+    expect(() => importJson([{ ...entry, segments: [{ text: 'Hi' }] }])).toThrow('Entry 1 has malformed segments.');
+    expect(() => importJson([{ ...entry, segments: [{ ...entry.segments![0], translations: ['x'] }] }])).toThrow('Entry 1 has malformed segments.');
+    expect(() => importJson([{ ...entry, speakers: { 1: 2 } }])).toThrow('Entry 1 has malformed speaker names.');
+    expect(() => importJson([{ ...conversationEntry, conversation: { languages: ['en'], turns: [] } }])).toThrow('Entry 1 has a malformed conversation.');
+    expect(() => importJson([{ ...entry, revisions: {} }])).toThrow('Entry 1 has malformed earlier versions.');
+  });
+
+  it('checks the content of earlier versions', () => {
+    const revision = entry.revisions![0];
+    expect(() => importJson([{ ...entry, revisions: [{ ...revision, translations: 'Buenos.' }] }])).toThrow('Entry 1, earlier version 1 is malformed.');
+    expect(() => importJson([{ ...entry, revisions: [{ ...revision, segments: [{ start: 0 }] }] }])).toThrow('Entry 1, earlier version 1 is malformed.');
+    expect(() => importJson([{ ...entry, revisions: [{ ...revision, savedAt: 'yesterday' }] }])).toThrow('Entry 1, earlier version 1 is malformed.');
+    expect(() => importJson([{ ...entry, revisions: [{ ...revision, conversation: { languages: ['en', 'es'], turns: [{ speaker: 'c' }] } }] }])).toThrow('Entry 1, earlier version 1 is malformed.');
+  });
+});
+
+describe('history CSV', () => {
+  it('reads its own export back, one entry per id', () => {
+    const [imported] = parseHistoryFile('history.csv', exportHistory([entry], 'csv'));
+    expect(imported).toEqual({
+      id: 'e1',
+      createdAt: entry.createdAt,
+      transcribedText: 'Good morning.',
+      sourceLanguage: 'en',
+      translatedText: 'Buenos días.',
+      targetLanguage: 'es',
+      translations: { es: 'Buenos días.', fr: 'Bonjour.' },
+    });
+    expect(historyContentKey(imported)).toBe(historyContentKey(entry));
+  });
+
+  it('names the columns it is missing', () => {
+    expect(() => parseHistoryFile('history.csv', 'createdAt,transcribedText\r\n')).toThrow('missing the column(s): targetLanguage, translatedText.');
+    expect(() => parseHistoryFile('history.csv', '')).toThrow('The CSV file is empty.');
+  });
+});
+
+describe('parseHistoryFile', () => {
+  it('rejects other file types', () => {
+    expect(() => parseHistoryFile('history.txt', '')).toThrow('Unsupported file type.');
+  });
+});
@@ -0,0 +1,290 @@
+import { Conversation, HistoryEntry, HistoryRevision, TranscriptSegment } from '../types';
+import { getEntryTranslations, withTranslations } from './history';
+import { escapeCsvField, parseCsv } from './csv';
+import { sanitizeStyleProfiles } from './translationStyle';
+
+export type HistoryExportFormat = 'json' | 'csv' | 'tmx';
+
+export const HISTORY_EXPORT_FORMATS: Record<HistoryExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  tmx: { label: 'TMX', extension: 'tmx', mimeType: 'application/x-tmx+xml' },
+};
+
+const JSON_FORMAT_ID = 'echotranslate-history';
+const JSON_FORMAT_VERSION = 1;
+const CSV_COLUMNS = ['id', 'createdAt', 'sourceLanguage', 'targetLanguage', 'transcribedText', 'translatedText'] as const;
+// Columns that older exports may not have.
+const OPTIONAL_CSV_COLUMNS: string[] = ['id', 'sourceLanguage'];
+// TMX requires a language on every variant; entries without a known source language are marked undetermined.
+const UNKNOWN_LANGUAGE = 'und';
+// TMX header value for files whose units have different source languages.
+const ALL_LANGUAGES = '*all*';
+
+// --- Export ---
+
+const toJson = (entries: HistoryEntry[]): string =>
+  JSON.stringify({ format: JSON_FORMAT_ID, version: JSON_FORMAT_VERSION, entries }, null, 2);
+
+// One row per translation, so spreadsheets get a flat source/target table.
+// Rows sharing an id are merged back into one entry on import.
+const toCsv = (entries: HistoryEntry[]): string => {
+  const rows = entries.flatMap(entry => Object.entries(getEntryTranslations(entry)).map(([code, text]) => [
+    entry.id,
+    new Date(entry.createdAt).toISOString(),
+    entry.sourceLanguage ?? '',
+    code,
+    entry.transcribedText,
+    text,
+  ].map(escapeCsvField).join(',')));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TMX dates are ISO 8601 basic format in UTC, e.g. 20240131T154500Z.
+const toTmxDate = (time: number): string =>
+  new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const fromTmxDate = (value: string | null): number | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match;
+  return Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+};
+
+const toTmx = (entries: HistoryEntry[]): string => {
+  const units = entries.map(entry => [
+    `    <tu tuid="${escapeXml(entry.id)}" creationdate="${toTmxDate(entry.createdAt)}">`,
+    `      <tuv xml:lang="${escapeXml(entry.sourceLanguage ?? UNKNOWN_LANGUAGE)}"><seg>${escapeXml(entry.transcribedText)}</seg></tuv>`,
+    ...Object.entries(getEntryTranslations(entry)).map(([code, text]) =>
+      `      <tuv xml:lang="${escapeXml(code)}"><seg>${escapeXml(text)}</seg></tuv>`),
+    '    </tu>',
+  ].join('\n'));
+  const sourceLanguages = new Set(entries.map(entry => entry.sourceLanguage ?? UNKNOWN_LANGUAGE));
+  const srcLang = sourceLanguages.size === 1 ? [...sourceLanguages][0] : ALL_LANGUAGES;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="EchoTranslate AI" creationtoolversion="1" segtype="sentence" o-tmf="echotranslate" adminlang="en" srclang="${escapeXml(srcLang)}" datatype="plaintext"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+};
+
+export const exportHistory = (entries: HistoryEntry[], format: HistoryExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return toJson(entries);
+    case 'csv':
+      return toCsv(entries);
+    case 'tmx':
+      return toTmx(entries);
+  }
+};
+
+// --- Import ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isObject(value) && Object.values(value).every(isString);
+
+const isValidSegment = (value: unknown): value is TranscriptSegment =>
+  isObject(value) && isString(value.text) && typeof value.start === 'number' && typeof value.end === 'number'
+  && (value.translations === undefined || isStringRecord(value.translations))
+  && (value.speaker === undefined || isString(value.speaker));
+
+const isValidSegmentList = (value: unknown): value is TranscriptSegment[] =>
+  Array.isArray(value) && value.every(isValidSegment);
+
+const isValidConversation = (value: unknown): value is Conversation =>
+  isObject(value) && Array.isArray(value.languages) && value.languages.length === 2 && value.languages.every(isString)
+  && Array.isArray(value.turns)
+  && value.turns.every((turn: unknown) => isObject(turn) && (turn.speaker === 'a' || turn.speaker === 'b')
+    && isString(turn.text) && isString(turn.translatedText));
+
+// Optional fields may be left out, but when present they must have the shape
+// the history panel renders; anything else would only fail once it is shown.
+const isValidRevision = (value: unknown): value is HistoryRevision =>
+  isObject(value) && typeof value.savedAt === 'number' && isString(value.transcribedText)
+  && isString(value.translatedText) && isString(value.targetLanguage)
+  && (value.sourceLanguage === undefined || isString(value.sourceLanguage))
+  && (value.translations === undefined || isStringRecord(value.translations))
+  && (value.segments === undefined || isValidSegmentList(value.segments))
+  && (value.speakers === undefined || isStringRecord(value.speakers))
+  && (value.conversation === undefined || isValidConversation(value.conversation));
+
+// Copies only the known fields of a checked revision.
+const copyRevision = (revision: HistoryRevision): HistoryRevision => {
+  const styles = sanitizeStyleProfiles(revision.styles);
+  return {
+    transcribedText: revision.transcribedText,
+    translatedText: revision.translatedText,
+    targetLanguage: revision.targetLanguage,
+    ...(revision.sourceLanguage ? { sourceLanguage: revision.sourceLanguage } : {}),
+    ...(revision.translations ? { translations: revision.translations } : {}),
+    ...(revision.segments ? { segments: revision.segments } : {}),
+    ...(revision.speakers ? { speakers: revision.speakers } : {}),
+    ...(Object.keys(styles).length > 0 ? { styles } : {}),
+    ...(revision.conversation ? { conversation: revision.conversation } : {}),
+    savedAt: revision.savedAt,
+  };
+};
+
+const validateEntry = (value: unknown, position: string): HistoryEntry => {
+  if (!isObject(value)) {
+    throw new Error(`${position} is not an object.`);
+  }
+  const { transcribedText, translatedText, targetLanguage } = value;
+  if (!isString(transcribedText) || !isString(translatedText) || !transcribedText.trim()) {
+    throw new Error(`${position} is missing its original or translated text.`);
+  }
+  if (!isString(targetLanguage) || !targetLanguage.trim()) {
+    throw new Error(`${position} is missing its target language.`);
+  }
+  // An optional field that is present but malformed rejects the entry.
+  const optional = <T>(field: unknown, isValid: (field: unknown) => field is T, problem: string): T | undefined => {
+    if (field === undefined || field === null) return undefined;
+    if (!isValid(field)) throw new Error(`${position} ${problem}.`);
+    return field;
+  };
+  const createdAt = typeof value.createdAt === 'number' ? value.createdAt : Date.parse(String(value.createdAt));
+  // The primary translation always comes first, followed by any others.
+  const translations: Record<string, string> = { [targetLanguage.trim()]: translatedText };
+  if (value.translations !== undefined && value.translations !== null) {
+    if (!isObject(value.translations)) {
+      throw new Error(`${position} has translations that are not keyed by language.`);
+    }
+    for (const [code, text] of Object.entries(value.translations)) {
+      if (!isString(text)) {
+        throw new Error(`${position} has a non-text translation for "${code}".`);
+      }
+      if (!(code in translations)) translations[code] = text;
+    }
+  }
+  const segments = optional(value.segments, isValidSegmentList, 'has malformed segments');
+  const speakers = optional(value.speakers, isStringRecord, 'has malformed speaker names');
+  const conversation = optional(value.conversation, isValidConversation, 'has a malformed conversation');
+  const revisions = optional(value.revisions, (field): field is unknown[] => Array.isArray(field), 'has malformed earlier versions')
+    ?.map((revision, i) => {
+      if (!isValidRevision(revision)) throw new Error(`${position}, earlier version ${i + 1} is malformed.`);
+      return copyRevision(revision);
+    });
+  const styles = sanitizeStyleProfiles(value.styles);
+  return {
+    id: isString(value.id) && value.id ? value.id : crypto.randomUUID(),
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
+    transcribedText,
+    ...(isString(value.sourceLanguage) && value.sourceLanguage.trim() && value.sourceLanguage !== UNKNOWN_LANGUAGE
+      ? { sourceLanguage: value.sourceLanguage.trim() }
+      : {}),
+    ...withTranslations(translations),
+    ...(segments ? { segments } : {}),
+    ...(speakers ? { speakers } : {}),
+    ...(Object.keys(styles).length > 0 ? { styles } : {}),
+    ...(conversation ? { conversation } : {}),
+    ...(typeof value.updatedAt === 'number' ? { updatedAt: value.updatedAt } : {}),
+    ...(revisions && revisions.length > 0 ? { revisions } : {}),
+  };
+};
+
+const parseJson = (content: string): HistoryEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  // Accept a bare array as well as the wrapped export format.
+  const entries = Array.isArray(data) ? data : isObject(data) && data.format === JSON_FORMAT_ID ? data.entries : null;
+  if (!Array.isArray(entries)) {
+    throw new Error('The JSON file is not an EchoTranslate history export.');
+  }
+  return entries.map((entry: unknown, i) => validateEntry(entry, `Entry ${i + 1}`));
+};
+
+const parseCsvHistory = (content: string): HistoryEntry[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) throw new Error('The CSV file is empty.');
+  const columns = header.map(name => name.trim());
+  const missing = CSV_COLUMNS.filter(name => !OPTIONAL_CSV_COLUMNS.includes(name) && !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`The CSV file is missing the column(s): ${missing.join(', ')}.`);
+  }
+  const entries: HistoryEntry[] = [];
+  const byId = new Map<string, HistoryEntry>();
+  rows.forEach((cells, i) => {
+    const record = Object.fromEntries(columns.map((name, col) => [name, cells[col] ?? '']));
+    const entry = validateEntry(record, `Row ${i + 2}`);
+    const existing = record.id ? byId.get(record.id) : undefined;
+    if (existing) {
+      Object.assign(existing, withTranslations({ ...getEntryTranslations(existing), ...getEntryTranslations(entry) }));
+      return;
+    }
+    if (record.id) byId.set(record.id, entry);
+    entries.push(entry);
+  });
+  return entries;
+};
+
+const parseTmx = (content: string): HistoryEntry[] => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.nodeName !== 'tmx') {
+    throw new Error('The file is not a valid TMX document.');
+  }
+  const srcLang = doc.querySelector('header')?.getAttribute('srclang') ?? UNKNOWN_LANGUAGE;
+  return Array.from(doc.getElementsByTagName('tu')).map((tu, i) => {
+    const variants = Array.from(tu.getElementsByTagName('tuv')).map(tuv => ({
+      lang: tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang') ?? '',
+      text: tuv.getElementsByTagName('seg')[0]?.textContent ?? '',
+    }));
+    // With srclang="*all*" each unit's first variant is its source.
+    const source = variants.find(v => v.lang === srcLang) ?? variants[0];
+    const targets = variants.filter(v => v !== source);
+    if (!source || targets.length === 0) {
+      throw new Error(`Translation unit ${i + 1} needs both a source and a target variant.`);
+    }
+    return validateEntry({
+      id: tu.getAttribute('tuid') ?? undefined,
+      createdAt: fromTmxDate(tu.getAttribute('creationdate')) ?? undefined,
+      transcribedText: source.text,
+      sourceLanguage: source.lang,
+      translatedText: targets[0].text,
+      targetLanguage: targets[0].lang,
+      translations: Object.fromEntries(targets.map(t => [t.lang, t.text])),
+    }, `Translation unit ${i + 1}`);
+  });
+};
+
+export const detectHistoryFormat = (fileName: string): HistoryExportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'json' || extension === 'csv' || extension === 'tmx' ? extension : null;
+};
+
+export const parseHistoryFile = (fileName: string, content: string): HistoryEntry[] => {
+  const format = detectHistoryFormat(fileName);
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'csv':
+      return parseCsvHistory(content);
+    case 'tmx':
+      return parseTmx(content);
+    default:
+      throw new Error('Unsupported file type. Choose a .json, .csv or .tmx file.');
+  }
+};
+
+// Two entries are duplicates when they hold the same original text and the same set of translations.
+export const historyContentKey = (entry: HistoryEntry): string =>
+  [entry.transcribedText, ...Object.entries(getEntryTranslations(entry)).sort(([a], [b]) => a.localeCompare(b)).flat()]
+    .map(part => part.replace(/\s+/g, ' ').trim().toLowerCase())
+    .join('\u0000');
@@ -0,0 +1,42 @@
+import { Language } from '../types';
+import { TARGET_LANGUAGE_CHOICES, TARGET_LANGUAGES } from '../constants';
+
+// Regional variants of one language (e.g. "zh-CN" and "zh") count as the same language.
+export const isSameLanguage = (a: string, b: string): boolean =>
+  a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+
+// Whether text in `source` can stand as is for `target`. A target that names a
+// region or script, e.g. "pt-BR" or "zh-TW", still needs translating from any
+// other variant; a bare one such as "pt" takes any variant.
+export const isAlreadyInLanguage = (source: string, target: string): boolean =>
+  target.includes('-') ? source.toLowerCase() === target.toLowerCase() : isSameLanguage(source, target);
+
+// Only code-shaped values such as "pt-BR" are accepted where codes end up in prompts or replies.
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+export const isLanguageCode = (code: string): boolean => LANGUAGE_CODE.test(code);
+
+export const findLanguage = (code: string): Language =>
+  TARGET_LANGUAGE_CHOICES.find(l => l.code === code) || { code, name: code };
+
+// Common characters written differently in the two Chinese scripts, in the same order.
+const SIMPLIFIED_ONLY = '这们个来时说国对会为学没发见过还后经问进长东车开门话请谢欢吗么儿';
+const TRADITIONAL_ONLY = '這們個來時說國對會為學沒發見過還後經問進長東車開門話請謝歡嗎麼兒';
+
+// Which Chinese script `text` is written in, or null if it has none of the
+// characters that tell them apart.
+export const chineseScript = (text: string): 'zh-CN' | 'zh-TW' | null => {
+  const count = (characters: string) => [...text].filter(character => characters.includes(character)).length;
+  const simplified = count(SIMPLIFIED_ONLY);
+  const traditional = count(TRADITIONAL_ONLY);
+  if (simplified === traditional) return null;
+  return simplified > traditional ? 'zh-CN' : 'zh-TW';
+};
+
+// The app's own code for a language detected in `text`. Bare codes like "fr"
+// map onto the offered language. Chinese takes its variant from the script,
+// and stays a bare "zh" when the script does not tell.
+export const resolveDetectedLanguage = (code: string, text: string): string => {
+  if (isSameLanguage(code, 'zh')) return chineseScript(text) ?? code;
+  return (TARGET_LANGUAGES.find(l => l.code === code) ?? TARGET_LANGUAGES.find(l => isSameLanguage(l.code, code)))?.code ?? code;
+};
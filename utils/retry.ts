@@ -0,0 +1,40 @@
+import { isTransientError } from './errors';
+
+export interface RetryOptions {
+  // Attempts after the first one.
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together.
+export const backoffDelay = (attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Runs `task`, retrying transient failures. The last error is rethrown once retries run out.
+export const withRetry = async <T>(task: () => Promise<T>, {
+  retries = DEFAULT_RETRIES,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  shouldRetry = isTransientError,
+  onRetry,
+}: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt > retries || !shouldRetry(e)) throw e;
+      const wait = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(e, attempt, wait);
+      await delay(wait);
+    }
+  }
+};
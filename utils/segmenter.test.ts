@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { joinSegments, splitFinalizedSegments } from './segmenter';
+
+describe('splitFinalizedSegments', () => {
+  it('finalizes sentences followed by more text', () => {
+    expect(splitFinalizedSegments('Hello there. How are you? I am')).toEqual({
+      segments: ['Hello there.', 'How are you?'],
+      remainder: 'I am',
+    });
+  });
+
+  it('waits for more text after the last sentence', () => {
+    expect(splitFinalizedSegments('Hello there. How are you?')).toEqual({ segments: ['Hello there.'], remainder: 'How are you?' });
+    expect(splitFinalizedSegments('Hello there. How are you? ')).toEqual({ segments: ['Hello there.', 'How are you?'], remainder: '' });
+  });
+
+  it('does not split after titles, initials and abbreviations', () => {
+    expect(splitFinalizedSegments('I saw Dr. Smith and Mr. J. Jones today. They said e.g. Paris is nice. And')).toEqual({
+      segments: ['I saw Dr. Smith and Mr. J. Jones today.', 'They said e.g. Paris is nice.'],
+      remainder: 'And',
+    });
+  });
+
+  it('keeps initials with the name they belong to', () => {
+    expect(splitFinalizedSegments('John F. Kennedy spoke. J. R. R. Tolkien wrote. And')).toEqual({
+      segments: ['John F. Kennedy spoke.', 'J. R. R. Tolkien wrote.'],
+      remainder: 'And',
+    });
+  });
+
+  it('splits after a sentence ending in a capital letter', () => {
+    expect(splitFinalizedSegments('I got an A. Then I went home. So did I. And')).toEqual({
+      segments: ['I got an A.', 'Then I went home.', 'So did I.'],
+      remainder: 'And',
+    });
+  });
+
+  it('splits after a sentence ending in "No."', () => {
+    expect(splitFinalizedSegments('I said No. Then we left. And')).toEqual({ segments: ['I said No.', 'Then we left.'], remainder: 'And' });
+  });
+
+  it('keeps "No." with the number after it', () => {
+    expect(splitFinalizedSegments('Room No. 5 is free. Then')).toEqual({ segments: ['Room No. 5 is free.'], remainder: 'Then' });
+  });
+
+  it('keeps a sentence ending in an abbreviation open', () => {
+    expect(splitFinalizedSegments('We met Dr. ')).toEqual({ segments: [], remainder: 'We met Dr. ' });
+  });
+
+  it('does not split decimals', () => {
+    expect(splitFinalizedSegments('It costs 3.50 euros. Or 3. 5 maybe. Then')).toEqual({
+      segments: ['It costs 3.50 euros.', 'Or 3. 5 maybe.'],
+      remainder: 'Then',
+    });
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    expect(splitFinalizedSegments('He said "stop." Then')).toEqual({ segments: ['He said "stop."'], remainder: 'Then' });
+  });
+
+  it('splits sentences written without spaces', () => {
+    expect(splitFinalizedSegments('今日は晴れ。明日は雨です。そして')).toEqual({ segments: ['今日は晴れ。', '明日は雨です。'], remainder: 'そして' });
+  });
+
+  it('cuts a long run without sentence punctuation at its last clause break', () => {
+    const words = Array.from({ length: 12 }, (_, i) => `word${i}`).join(' ');
+    const text = `${words}, ${words}, and more`;
+    expect(splitFinalizedSegments(text)).toEqual({ segments: [`${words}, ${words},`], remainder: 'and more' });
+  });
+
+  it('leaves a short run without punctuation as it is', () => {
+    expect(splitFinalizedSegments('just a few words, so far')).toEqual({ segments: [], remainder: 'just a few words, so far' });
+  });
+});
+
+describe('joinSegments', () => {
+  it('joins with spaces, or without for unspaced languages', () => {
+    expect(joinSegments([' One. ', '', 'Two.'], 'en')).toBe('One. Two.');
+    expect(joinSegments(['一。', '二。'], 'zh-CN')).toBe('一。二。');
+  });
+});
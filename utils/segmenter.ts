@@ -0,0 +1,64 @@
+// Splits streaming transcript text into segments that are safe to translate.
+// Sentences are found by the platform's sentence segmenter, which leaves
+// decimals and abbreviations before lowercase words alone. The last one counts
+// as final once its terminal punctuation is followed by more text; long runs
+// without sentence punctuation are cut at the last clause break.
+
+const SENTENCE_END = /[.!?。！？…]+["'”’)\]]*\s+$/;
+// Titles and abbreviations the segmenter would split after when a
+// capitalized word follows, e.g. "Dr. Smith" or "e.g. Paris". Ones that
+// often end a sentence, such as "Jr." or "No.", are left out; the segmenter
+// already keeps "No. 5" together.
+const ABBREVIATION_END = /(?:^|[\s("'“‘])(?:Mr|Mrs|Ms|Dr|Prof|Sr|St|Mt|Rev|Gen|Col|Capt|Lt|Sgt|vs|Sra|Srta|Dra|Hr|Fr|e\.g|i\.e|z\.B)\.\s+$/;
+// An initial that starts a sentence or follows a name, a title or another
+// initial, as in "John F. Kennedy" or "Mr. J. R. Jones". After any other word
+// a capital letter more likely ends the sentence, as in "I got an A."
+const INITIAL_END = /(?:^|(?:^|\s)\p{Lu}\p{L}*\.?\s+)\p{Lu}\.\s+$/u;
+const CLAUSE_BREAK = /[,;:，、；：]\s+/g;
+const MAX_PHRASE_WORDS = 20;
+
+const sentenceSegmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+
+export interface SegmentSplit {
+  segments: string[];
+  remainder: string;
+}
+
+const splitAtLastClauseBreak = (text: string): SegmentSplit => {
+  if (text.trim().split(/\s+/).length < MAX_PHRASE_WORDS) {
+    return { segments: [], remainder: text };
+  }
+  let cut = -1;
+  for (const match of text.matchAll(CLAUSE_BREAK)) {
+    cut = match.index! + match[0].length;
+  }
+  if (cut <= 0) return { segments: [], remainder: text };
+  return { segments: [text.slice(0, cut).trim()], remainder: text.slice(cut) };
+};
+
+export const splitFinalizedSegments = (text: string): SegmentSplit => {
+  const sentences: string[] = [];
+  let sentence = '';
+  for (const { segment } of sentenceSegmenter.segment(text)) {
+    sentence += segment;
+    if (!ABBREVIATION_END.test(sentence) && !INITIAL_END.test(sentence)) {
+      sentences.push(sentence);
+      sentence = '';
+    }
+  }
+  // Text after the last complete sentence, or one still open after an abbreviation.
+  let last = sentence;
+  if (!last && sentences.length > 0 && !SENTENCE_END.test(sentences[sentences.length - 1])) {
+    last = sentences.pop()!;
+  }
+  const rest = splitAtLastClauseBreak(last);
+  return { segments: [...sentences.map(s => s.trim()).filter(Boolean), ...rest.segments], remainder: rest.remainder };
+};
+
+// Languages written without spaces between sentences.
+const UNSPACED_LANGUAGES = ['ja', 'zh'];
+
+export const joinSegments = (segments: string[], languageCode: string): string => {
+  const separator = UNSPACED_LANGUAGES.some(code => languageCode.startsWith(code)) ? '' : ' ';
+  return segments.map(s => s.trim()).filter(Boolean).join(separator);
+};
@@ -0,0 +1,9 @@
+import { TranscriptSegment } from '../types';
+
+// Speaker ids in order of first appearance.
+export const speakerIds = (segments: TranscriptSegment[]): string[] =>
+  [...new Set(segments.flatMap(segment => segment.speaker ? [segment.speaker] : []))];
+
+// Renamed speakers use their new name; the rest keep the numbered default.
+export const speakerName = (id: string, names: Record<string, string> = {}): string =>
+  names[id]?.trim() || `Speaker ${id}`;
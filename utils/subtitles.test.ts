@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { buildCues, buildSubtitles, formatTimestamp, wrapText } from './subtitles';
+
+describe('formatTimestamp', () => {
+  it('writes SRT and WebVTT times', () => {
+    expect(formatTimestamp(3723.456, 'srt')).toBe('01:02:03,456');
+    expect(formatTimestamp(3723.456, 'vtt')).toBe('01:02:03.456');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatTimestamp(-1, 'vtt')).toBe('00:00:00.000');
+  });
+});
+
+describe('wrapText', () => {
+  it('wraps at word boundaries', () => {
+    expect(wrapText('the quick brown fox jumps over the lazy dog', 15)).toEqual(['the quick brown', 'fox jumps over', 'the lazy dog']);
+  });
+
+  it('wraps unspaced scripts per character', () => {
+    expect(wrapText('今日はとても良い天気ですね', 5, 'ja')).toEqual(['今日はとて', 'も良い天気', 'ですね']);
+  });
+
+  it('keeps combining marks with their letter', () => {
+    expect(wrapText('สวัสดีครับ', 3, 'th')).toEqual(['สวัส', 'ดีครั', 'บ']);
+  });
+
+  it('cuts a run longer than a line even without a language', () => {
+    expect(wrapText('你好世界你好世界', 3)).toEqual(['你好世', '界你好', '世界']);
+  });
+
+  it('returns no lines for blank text', () => {
+    expect(wrapText('  \n ')).toEqual([]);
+  });
+});
+
+const segments: TranscriptSegment[] = [
+  { start: 0, end: 0.4, text: '这是一个很长的句子需要换行显示', translations: { en: 'This is a long sentence' }, speaker: '1' },
+  { start: 0.8, end: 3, text: 'Second', translations: { en: 'Second' } },
+];
+
+describe('buildCues', () => {
+  it('wraps the original for its own language', () => {
+    const [cue] = buildCues(segments, { track: 'original', maxLineLength: 8, sourceLanguageCode: 'zh-CN' });
+    expect(cue.lines).toEqual(['这是一个很长的句', '子需要换行显示']);
+  });
+
+  it('puts the original above the translation in bilingual cues', () => {
+    const [cue] = buildCues(segments, { track: 'bilingual', languageCode: 'en', sourceLanguageCode: 'zh' });
+    expect(cue.lines).toEqual(['这是一个很长的句子需要换行显示', 'This is a long sentence']);
+  });
+
+  it('keeps short cues on screen without overlapping the next one', () => {
+    const [first] = buildCues(segments, { track: 'original' });
+    expect(first.end).toBe(0.8);
+  });
+
+  it('names diarized speakers', () => {
+    const [first, second] = buildCues(segments, { track: 'translation', languageCode: 'en', speakerNames: { '1': 'Ana' } });
+    expect(first.speaker).toBe('Ana');
+    expect(second.speaker).toBeUndefined();
+  });
+});
+
+describe('buildSubtitles', () => {
+  it('writes numbered SRT cues', () => {
+    expect(buildSubtitles(segments.slice(1), 'srt', { track: 'original' })).toBe('1\n00:00:00,800 --> 00:00:03,000\nSecond\n');
+  });
+
+  it('escapes markup in WebVTT cue text', () => {
+    const vtt = buildSubtitles([{ start: 0, end: 2, text: 'Tom & Jerry <3 --> forever' }], 'vtt', { track: 'original' });
+    expect(vtt).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:02.000\nTom &amp; Jerry &lt;3 --&gt; forever\n');
+  });
+
+  it('writes speakers as WebVTT voices', () => {
+    const vtt = buildSubtitles(segments.slice(0, 1), 'vtt', { track: 'translation', languageCode: 'en', speakerNames: { '1': 'A <b>' } });
+    expect(vtt).toContain('<v A  b>This is a long sentence');
+  });
+});
@@ -0,0 +1,125 @@
+import { TranscriptSegment } from '../types';
+import { speakerName } from './speakers';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+export type SubtitleTrack = 'original' | 'translation' | 'bilingual';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  // Display name of the speaker, for diarized transcripts.
+  speaker?: string;
+}
+
+export interface SubtitleOptions {
+  track: SubtitleTrack;
+  maxLineLength?: number;
+  languageCode?: string;
+  // The language of the original, so its lines are wrapped the way its script needs.
+  sourceLanguageCode?: string;
+  // Names given to diarized speakers, keyed by speaker id.
+  speakerNames?: Record<string, string>;
+}
+
+// Common broadcast guidance: at most 42 characters per line, cues on screen for at least a second.
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const MIN_CUE_SECONDS = 1;
+// Scripts that don't separate words with spaces are wrapped per character instead.
+const UNSPACED_LANGUAGES = ['ja', 'zh', 'th', 'lo', 'km', 'my'];
+
+// Characters as seen on screen, so combining marks stay with their letter.
+const graphemes = (text: string): string[] =>
+  Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), ({ segment }) => segment);
+
+const chunk = (text: string, size: number): string[] => {
+  const chars = graphemes(text);
+  const chunks: string[] = [];
+  for (let i = 0; i < chars.length; i += size) {
+    chunks.push(chars.slice(i, i + size).join('').trim());
+  }
+  return chunks.filter(Boolean);
+};
+
+export const formatTimestamp = (seconds: number, format: SubtitleFormat): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const wrapText = (text: string, maxLineLength = DEFAULT_MAX_LINE_LENGTH, languageCode = ''): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+
+  if (UNSPACED_LANGUAGES.includes(languageCode.split('-')[0].toLowerCase())) {
+    return chunk(normalized, maxLineLength);
+  }
+
+  const lines: string[] = [];
+  let line = '';
+  // A run longer than a line, e.g. unspaced text in an unknown language, is cut into line-sized pieces.
+  const words = normalized.split(' ').flatMap(word => (graphemes(word).length > maxLineLength ? chunk(word, maxLineLength) : [word]));
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+export const buildCues = (segments: TranscriptSegment[], { track, maxLineLength, languageCode = '', sourceLanguageCode = '', speakerNames }: SubtitleOptions): SubtitleCue[] => {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  return sorted
+    .map((segment, i) => {
+      const original = wrapText(segment.text, maxLineLength, sourceLanguageCode);
+      const translated = wrapText(segment.translations?.[languageCode] ?? '', maxLineLength, languageCode);
+      const lines = track === 'original' ? original
+        : track === 'translation' ? translated
+        : [...original, ...translated];
+
+      // Keep every cue readable, but never let it run into the next one.
+      const next = sorted[i + 1];
+      let end = Math.max(segment.end, segment.start + MIN_CUE_SECONDS);
+      if (next && end > next.start) end = Math.max(next.start, segment.start + 0.001);
+      return { start: segment.start, end, lines, ...(segment.speaker ? { speaker: speakerName(segment.speaker, speakerNames) } : {}) };
+    })
+    .filter(cue => cue.lines.length > 0);
+};
+
+// SRT has no speaker markup, so the name is written in front of the cue text.
+const srtText = ({ lines, speaker }: SubtitleCue): string =>
+  (speaker ? [`${speaker}: ${lines[0]}`, ...lines.slice(1)] : lines).join('\n');
+
+// Cue text is markup in WebVTT: "&" and "<" would start an entity or a tag,
+// and "-->" would read as a timing line.
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// WebVTT voice spans run to the end of the cue; the name may not contain markup characters.
+const vttText = ({ lines, speaker }: SubtitleCue): string => {
+  const text = lines.map(escapeVtt).join('\n');
+  return speaker ? `<v ${speaker.replace(/[<>&\n]/g, ' ').trim()}>${text}` : text;
+};
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, 'srt')} --> ${formatTimestamp(cue.end, 'srt')}\n${srtText(cue)}\n`)
+    .join('\n');
+
+export const toVtt = (cues: SubtitleCue[]): string =>
+  ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.start, 'vtt')} --> ${formatTimestamp(cue.end, 'vtt')}\n${vttText(cue)}\n`)]
+    .join('\n');
+
+export const buildSubtitles = (segments: TranscriptSegment[], format: SubtitleFormat, options: SubtitleOptions): string => {
+  const cues = buildCues(segments, options);
+  return format === 'srt' ? toSrt(cues) : toVtt(cues);
+};
@@ -0,0 +1,6 @@
+export const formatTime = (timeInSeconds: number): string => {
+  if (isNaN(timeInSeconds) || timeInSeconds === 0) return '00:00';
+  const minutes = Math.floor(timeInSeconds / 60);
+  const seconds = Math.floor(timeInSeconds % 60);
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
@@ -0,0 +1,52 @@
+import { TranscriptSegment } from '../types';
+import { joinSegments } from './segmenter';
+import { speakerName } from './speakers';
+
+// Validates a model-produced JSON segment list: drops entries without text,
+// repairs missing or inverted times and returns the segments in playback order.
+export const parseTranscriptSegments = (json: string): TranscriptSegment[] => {
+  const raw = JSON.parse(json);
+  if (!Array.isArray(raw)) {
+    throw new Error('Expected the transcript to be a list of segments.');
+  }
+  return raw
+    .filter(item => item && typeof item.text === 'string' && item.text.trim())
+    .map(item => {
+      const start = Math.max(0, Number(item.start) || 0);
+      const end = Math.max(start, Number(item.end) || start);
+      const speaker = typeof item.speaker === 'string' || typeof item.speaker === 'number' ? String(item.speaker).trim() : '';
+      return { start, end, text: item.text.trim(), ...(speaker ? { speaker } : {}) };
+    })
+    .sort((a, b) => a.start - b.start);
+};
+
+export const findActiveSegmentIndex = (segments: TranscriptSegment[], time: number): number =>
+  segments.findIndex((segment, i) => {
+    const next = segments[i + 1];
+    // Gaps between segments keep the previous one highlighted until the next begins.
+    return time >= segment.start && (next ? time < next.start : time <= segment.end);
+  });
+
+// Joins the original text, or the translation into `languageCode` when given.
+// Diarized transcripts get one line per change of speaker, prefixed with the speaker's name.
+export const segmentsToText = (segments: TranscriptSegment[], languageCode?: string, speakerNames?: Record<string, string>): string => {
+  const textOf = (segment: TranscriptSegment) => (languageCode ? segment.translations?.[languageCode] : segment.text) ?? '';
+  if (!segments.some(segment => segment.speaker)) {
+    return joinSegments(segments.map(textOf), languageCode ?? '');
+  }
+  const turns: { speaker?: string; texts: string[] }[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(textOf(segment));
+    } else {
+      turns.push({ speaker: segment.speaker, texts: [textOf(segment)] });
+    }
+  }
+  return turns
+    .map(turn => {
+      const text = joinSegments(turn.texts, languageCode ?? '');
+      return turn.speaker ? `${speakerName(turn.speaker, speakerNames)}: ${text}` : text;
+    })
+    .join('\n');
+};
@@ -0,0 +1,71 @@
+import { TranslationReply } from '../types';
+import { isLanguageCode } from './language';
+
+// Opening and closing quotation marks a model may wrap a translation in.
+const QUOTE_PAIRS: [string, string][] = [['"', '"'], ["'", "'"], ['“', '”'], ['„', '“'], ['«', '»'], ['「', '」'], ['『', '』']];
+
+const malformed = (detail: string): Error => new Error(`The model returned a malformed translation: ${detail}`);
+
+// Strips a Markdown code fence around JSON, which some replies add despite the JSON response type.
+const stripCodeFence = (text: string): string => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text;
+};
+
+// Replies arrive as the model's JSON text, or already parsed when relayed by the API server.
+const parseReply = (reply: unknown): unknown => {
+  if (typeof reply !== 'string') return reply;
+  try {
+    return JSON.parse(stripCodeFence(reply));
+  } catch {
+    throw malformed('the reply is not JSON.');
+  }
+};
+
+const quotePairOf = (text: string): [string, string] | undefined =>
+  QUOTE_PAIRS.find(([open, close]) => text.length > open.length + close.length && text.startsWith(open) && text.endsWith(close));
+
+// Removes quotation marks around the whole translation, unless the original was quoted too.
+export const unquoteTranslation = (translation: string, original: string): string => {
+  const text = translation.trim();
+  const pair = quotePairOf(text);
+  if (!pair || quotePairOf(original.trim())) return text;
+  return text.slice(pair[0].length, text.length - pair[1].length).trim();
+};
+
+// Validates a translation reply: the translation must be a non-empty string, optional
+// fields of the wrong shape are dropped, and stray quotation marks are removed.
+export const parseTranslationReply = (reply: unknown, original: string): TranslationReply => {
+  const value = parseReply(reply);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw malformed('expected an object.');
+  }
+  const { translation, detectedSourceLanguage, notes } = value as Record<string, unknown>;
+  if (typeof translation !== 'string') {
+    throw malformed('the translation is missing.');
+  }
+  const text = unquoteTranslation(translation, original);
+  if (!text && original.trim()) {
+    throw malformed('the translation is empty.');
+  }
+  const detected = typeof detectedSourceLanguage === 'string' ? detectedSourceLanguage.trim() : '';
+  const note = typeof notes === 'string' ? notes.trim() : '';
+  return {
+    translation: text,
+    ...(isLanguageCode(detected) ? { detectedSourceLanguage: detected } : {}),
+    ...(note ? { notes: note } : {}),
+  };
+};
+
+// Validates a reply to a segment translation request: one string per
+// original segment, in order, each with stray quotation marks removed.
+export const parseSegmentTranslations = (reply: unknown, originals: string[]): string[] => {
+  const value = parseReply(reply);
+  if (!Array.isArray(value) || value.length !== originals.length) {
+    throw new Error('The model returned a different number of segment translations than requested.');
+  }
+  return value.map((translation, i) => {
+    if (typeof translation !== 'string') throw malformed(`segment ${i + 1} is not text.`);
+    return unquoteTranslation(translation, originals[i]);
+  });
+};
@@ -0,0 +1,38 @@
+import { Formality, Register, TranslationStyle } from '../types';
+import { FORMALITY_LABELS, REGISTER_LABELS } from '../constants';
+
+const isFormality = (value: unknown): value is Formality => typeof value === 'string' && value in FORMALITY_LABELS;
+
+const isRegister = (value: unknown): value is Register => typeof value === 'string' && value in REGISTER_LABELS;
+
+// Keeps only the recognized settings of a stored or submitted style; anything else is dropped.
+export const sanitizeStyle = (value: unknown): TranslationStyle => {
+  const { formality, register } = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    ...(isFormality(formality) ? { formality } : {}),
+    ...(isRegister(register) ? { register } : {}),
+  };
+};
+
+export const isEmptyStyle = (style: TranslationStyle | undefined): boolean => !style?.formality && !style?.register;
+
+// Style profiles keyed by language code, without the languages that have none.
+export const sanitizeStyleProfiles = (value: unknown): Record<string, TranslationStyle> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(Object.entries(value)
+    .map(([code, style]) => [code, sanitizeStyle(style)] as const)
+    .filter(([, style]) => !isEmptyStyle(style)));
+};
+
+// The profiles of the given languages, as recorded on a history entry: empty when none has one.
+export const stylesFor = (profiles: Record<string, TranslationStyle>, codes: string[]): { styles?: Record<string, TranslationStyle> } => {
+  const styles = Object.fromEntries(codes.filter(code => !isEmptyStyle(profiles[code])).map(code => [code, profiles[code]]));
+  return Object.keys(styles).length > 0 ? { styles } : {};
+};
+
+// A short label such as "formal, business".
+export const describeStyle = (style: TranslationStyle): string =>
+  [style.formality && FORMALITY_LABELS[style.formality], style.register && REGISTER_LABELS[style.register]]
+    .filter(Boolean)
+    .join(', ')
+    .toLowerCase();
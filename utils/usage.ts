@@ -0,0 +1,16 @@
+import { UsageSummary } from '../types';
+
+// What to tell the user about their budget, or null while spending is well within it.
+export const budgetNotice = ({ today, month, budget, status }: UsageSummary): string | null => {
+  if (status === 'ok') return null;
+  const shares = [
+    { period: 'daily', share: budget.dailyLimit ? today.cost / budget.dailyLimit : 0, reached: budget.dailyLimit !== undefined && today.cost >= budget.dailyLimit },
+    { period: 'monthly', share: budget.monthlyLimit ? month.cost / budget.monthlyLimit : 0, reached: budget.monthlyLimit !== undefined && month.cost >= budget.monthlyLimit },
+  ];
+  const reached = shares.find(limit => limit.reached);
+  if (status === 'blocked' && reached) {
+    return `The ${reached.period} usage budget has been reached, so new requests are blocked until the next ${reached.period === 'daily' ? 'day' : 'month'}. Raise the limit under Usage to continue.`;
+  }
+  const closest = shares.reduce((a, b) => (b.share > a.share ? b : a));
+  return `You have used ${Math.round(closest.share * 100)}% of the ${closest.period} usage budget.`;
+};
@@ -0,0 +1,40 @@
+// Energy-based voice activity detection. The noise floor adapts while nobody
+// is speaking; speech starts once the level stays well above it for a moment
+// and ends after a stretch of quiet, so short pauses between words don't cut
+// an utterance in two.
+const MIN_THRESHOLD = 0.015;
+const NOISE_RATIO = 3;
+const START_MS = 60;
+const HANGOVER_MS = 800;
+// How quickly the noise floor follows the level when quiet, per block.
+const FLOOR_ADAPTATION = 0.05;
+const INITIAL_FLOOR = 0.005;
+
+export interface VoiceActivityDetector {
+  // Feeds the RMS level of the next block and its duration; returns whether speech is active.
+  update: (rms: number, blockMs: number) => boolean;
+}
+
+export const createVoiceActivityDetector = (): VoiceActivityDetector => {
+  let floor = INITIAL_FLOOR;
+  let speaking = false;
+  let loudMs = 0;
+  let quietMs = 0;
+
+  return {
+    update: (rms, blockMs) => {
+      const loud = rms > Math.max(MIN_THRESHOLD, floor * NOISE_RATIO);
+      if (loud) {
+        loudMs += blockMs;
+        quietMs = 0;
+        if (!speaking && loudMs >= START_MS) speaking = true;
+      } else {
+        loudMs = 0;
+        quietMs += blockMs;
+        if (speaking && quietMs >= HANGOVER_MS) speaking = false;
+        if (!speaking) floor += (rms - floor) * FLOOR_ADAPTATION;
+      }
+      return speaking;
+    },
+  };
+};
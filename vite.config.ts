@@ -1,18 +1,52 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the build's files in the service worker (public/sw.js), so all of
+// them are cached when it installs rather than when a later visit happens to
+// fetch them. The cache version follows the hashed names, so a new build
+// replaces the old cache.
+const precacheBuild = (): Plugin => ({
+  name: 'precache-build',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const file = path.join(options.dir ?? 'dist', 'sw.js');
+    const assets = Object.keys(bundle).filter(name => !name.endsWith('.map')).sort().map(name => `/${name}`);
+    const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+    const source = readFileSync(file, 'utf8');
+    const filled = source
+      .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`)
+      .replace("const BUILD_VERSION = 'dev';", `const BUILD_VERSION = '${version}';`);
+    if (filled === source) throw new Error('public/sw.js no longer has the placeholders precacheBuild fills in.');
+    writeFileSync(file, filled);
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini API key stays with the API server (server/); the browser
+    // reaches it through this proxy.
+    const apiProxy = {
+      '/api': {
+        target: `http://127.0.0.1:${env.API_SERVER_PORT || 3001}`,
+        xfwd: true,
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuild()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only which backend to use is built in, never the key itself.
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock'))
       },
       resolve: {
         alias: {